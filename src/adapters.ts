@@ -1,10 +1,16 @@
 import { repairJson } from "repair-json-stream";
-import { buildPrompt } from "./prompts";
+import { requestChatCompletion } from "./http-agent";
+import { parseNativeOutput } from "./output-formats";
+import { buildPrompt, type PromptOptions, type PromptTask } from "./prompts";
+
+/** "assistant" marks Spec Gardener's own comments; everything else is a "user" turn. */
+export type CommentRole = "assistant" | "user";
 
 export type IssueComment = {
   author: string;
   body: string;
   createdAt: string;
+  role?: CommentRole;
 };
 
 export type ChangedFile = {
@@ -13,6 +19,76 @@ export type ChangedFile = {
   additions: number;
   deletions: number;
   changes: number;
+  /** Unified diff hunks, possibly truncated to the diff budget; absent for binary files. */
+  patch?: string;
+};
+
+export type SpecMetadata = {
+  labels: string[];
+  milestone?: string;
+  assignees: string[];
+  /** Organization issue type such as "Bug" or "Feature"; pull requests have none. */
+  issueType?: string;
+};
+
+export type PullRequestReview = {
+  author: string;
+  /** APPROVED, CHANGES_REQUESTED, COMMENTED or DISMISSED. */
+  state: string;
+  body: string;
+  submittedAt: string;
+};
+
+/** Inline review discussion anchored to a line of the diff. */
+export type ReviewThread = {
+  path: string;
+  line?: number;
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: IssueComment[];
+};
+
+/** An issue or pull request referenced from the spec or its comments. */
+export type RelatedItem = {
+  /** Reference in `owner/repo#123` form. */
+  reference: string;
+  kind: "issue" | "pull_request";
+  title: string;
+  state: string;
+  labels: string[];
+  /** Body excerpt, truncated to keep the prompt small. */
+  body: string;
+};
+
+/** An issue in the sub-issue tree around the spec. */
+export type HierarchyIssue = {
+  /** Reference in `owner/repo#123` form. */
+  reference: string;
+  title: string;
+  state: string;
+  /** Body excerpt, truncated to keep the prompt small. */
+  body: string;
+};
+
+/** The parent of a sub-issue and the parent's other sub-issues. */
+export type IssueHierarchy = {
+  parent: HierarchyIssue;
+  siblings: HierarchyIssue[];
+};
+
+/** A repository guidelines file loaded from the checkout. */
+export type Guideline = {
+  /** Path relative to the workspace. */
+  path: string;
+  content: string;
+};
+
+/** An issue the pull request closes, with its full specification. */
+export type LinkedIssue = {
+  /** Reference in `owner/repo#123` form. */
+  reference: string;
+  title: string;
+  body: string;
 };
 
 export type SpecContext = {
@@ -20,100 +96,485 @@ export type SpecContext = {
   body: string;
   comments: IssueComment[];
   author: string;
+  metadata?: SpecMetadata;
   changedFiles?: ChangedFile[];
+  reviews?: PullRequestReview[];
+  reviewThreads?: ReviewThread[];
+  relatedItems?: RelatedItem[];
+  hierarchy?: IssueHierarchy;
+  guidelines?: Guideline[];
+  /** Question asked with `/spec-gardener ask`, answered without editing the spec. */
+  question?: string;
+  /** Issues a pull request closes, which the verify command checks it against. */
+  linkedIssues?: LinkedIssue[];
+};
+
+/** A child spec proposed by the split command. */
+export type SplitIssue = {
+  title: string;
+  body: string;
+  labels: string[];
+};
+
+/**
+ * A Given/When/Then acceptance criterion proposed by the criteria command. The "then"
+ * part is named `expected`, as objects with a `then` property look like promises.
+ */
+export type AcceptanceCriterion = {
+  given: string;
+  when: string;
+  expected: string;
+};
+
+export const VERIFICATION_STATUSES = ["satisfied", "missing", "out_of_scope"] as const;
+
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+/** A requirement (or unrequested change) assessed by the verify command. */
+export type VerificationCheck = {
+  status: VerificationStatus;
+  requirement: string;
+  note?: string;
 };
 
 export type CliResult =
   | { type: "question"; content: string }
   | { type: "complete"; body: string; comment?: string; title?: string }
+  | { type: "split"; issues: SplitIssue[]; comment?: string }
+  | { type: "answer"; content: string }
+  | { type: "criteria"; criteria: AcceptanceCriterion[]; tests: string[]; comment?: string }
+  | { type: "verify"; checks: VerificationCheck[]; comment?: string }
   | { type: "no_change" };
 
+export type ToolUse = {
+  name: string;
+  detail?: string;
+};
+
+export type AgentUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedInputTokens?: number;
+  costUsd?: number;
+};
+
 export type ParseResult = {
   result: CliResult;
   parseFailed: boolean;
+  /** Schema or syntax problems that made parsing fail, suitable for a repair prompt. */
+  errors?: string[];
+  toolUses?: ToolUse[];
+  usage?: AgentUsage;
+};
+
+/**
+ * Machine-readable output mode requested from the CLI. "text" means free-form stdout
+ * that is scanned for the JSON result.
+ */
+export type OutputFormat =
+  | "text"
+  | "claude-stream-json"
+  | "codex-json"
+  | "gemini-json"
+  | "openai-chat-json";
+
+/**
+ * How the prompt reaches the agent process: appended to argv, piped through stdin,
+ * or written to a temporary file whose path replaces PROMPT_FILE_PLACEHOLDER in args.
+ */
+export type PromptTransport = "argv" | "stdin" | "file";
+
+/**
+ * Tool access granted to an agent: "read-only" can read and search the checkout,
+ * "read-search" can also search the web, and "full" can run arbitrary commands.
+ */
+export type PermissionProfile = "read-only" | "read-search" | "full";
+
+export const PERMISSION_PROFILES: PermissionProfile[] = ["read-only", "read-search", "full"];
+
+/** OpenAI-compatible `/chat/completions` endpoint, such as a self-hosted model server. */
+export type HttpAgentConfig = {
+  baseUrl: string;
+  model: string;
+  /** Name of the environment variable holding the bearer token, if the server needs one. */
+  apiKeyEnv?: string;
+  temperature?: number;
+  /** Requests `response_format: {type: "json_object"}` from servers that support it. */
+  jsonMode?: boolean;
 };
 
 export type AgentConfig = {
   name: string;
-  package: string;
+  package?: string;
+  /** Version (or dist-tag) of `package` to run; overrides any version inside `package`. */
+  version?: string;
+  command?: string;
   args: string[];
+  env?: Record<string, string>;
+  prompt?: PromptTransport;
+  output?: OutputFormat;
+  /** CLI flags appended to `args` for each permission profile. */
+  permissions?: Partial<Record<PermissionProfile, string[]>>;
+  /** Calls an HTTP endpoint instead of spawning a process; excludes `command` and `package`. */
+  http?: HttpAgentConfig;
+};
+
+export type AgentCommand = {
+  cmd: string;
+  args: string[];
+  env?: Record<string, string>;
+  prompt: PromptTransport;
 };
 
 export type ProviderAdapter = {
   name: string;
-  buildCommand: () => { cmd: string; args: string[] };
-  buildPrompt: (context: SpecContext, customPrompt?: string) => string;
-  parseOutput: (output: string) => ParseResult;
+  /** Package spec or command the adapter executes, including the resolved version. */
+  source: string;
+  /**
+   * Permission profile whose flags the command includes; undefined when the agent does
+   * not declare flags for the requested profile.
+   */
+  permissionProfile?: PermissionProfile;
+  /**
+   * Process to spawn; undefined for adapters that call an HTTP endpoint. Throws when the
+   * agent declares no flags for a restricted permission profile.
+   */
+  buildCommand?: () => AgentCommand;
+  /** Structured format of the raw output; "text" when undefined. */
+  output?: OutputFormat;
+  /** Sends the prompt over HTTP and resolves with the raw response body. */
+  request?: (prompt: string, timeoutMs: number, task?: PromptTask) => Promise<string>;
+  buildPrompt: (context: SpecContext, customPrompt?: string, options?: PromptOptions) => string;
+  /** Validates the output against the result types `task` allows; defaults to "refine". */
+  parseOutput: (output: string, task?: PromptTask) => ParseResult;
 };
 
 const DEFAULT_COMPLETION_COMMENT = "Spec updated by Spec Gardener.";
 
+const GEMINI_READ_TOOLS = "read_file,read_many_files,list_directory,glob,search_file_content";
+
+// Built-in agents are pinned to CLI versions tested with this release of Spec Gardener.
 const AGENT_CONFIGS: Record<string, AgentConfig> = {
   claude: {
     name: "claude",
-    package: "@anthropic-ai/claude-code@latest",
-    args: ["--dangerously-skip-permissions", "--allowed-tools", "Read,Glob,Grep,Bash", "--print"],
+    package: "@anthropic-ai/claude-code",
+    version: "2.1.1",
+    args: ["--print", "--output-format", "stream-json", "--verbose"],
+    prompt: "stdin",
+    output: "claude-stream-json",
+    permissions: {
+      "read-only": ["--allowed-tools", "Read,Glob,Grep"],
+      "read-search": ["--allowed-tools", "Read,Glob,Grep,WebSearch,WebFetch"],
+      full: ["--dangerously-skip-permissions", "--allowed-tools", "Read,Glob,Grep,Bash"],
+    },
   },
   codex: {
     name: "codex",
-    package: "@openai/codex@latest",
-    args: ["exec", "--dangerously-bypass-approvals-and-sandbox"],
+    package: "@openai/codex",
+    version: "0.87.0",
+    // "-" makes codex exec read the instructions from stdin.
+    args: ["exec", "--json", "-"],
+    prompt: "stdin",
+    output: "codex-json",
+    permissions: {
+      "read-only": ["--sandbox", "read-only"],
+      "read-search": ["--sandbox", "read-only", "--config", "tools.web_search=true"],
+      full: ["--dangerously-bypass-approvals-and-sandbox"],
+    },
   },
   gemini: {
     name: "gemini",
-    package: "@google/gemini-cli@latest",
-    args: ["--approval-mode", "yolo"],
+    package: "@google/gemini-cli",
+    version: "0.26.0",
+    args: ["--output-format", "json"],
+    prompt: "stdin",
+    output: "gemini-json",
+    // Without yolo, tools that need confirmation are unavailable in non-interactive runs.
+    permissions: {
+      "read-only": ["--allowed-tools", GEMINI_READ_TOOLS],
+      "read-search": ["--allowed-tools", `${GEMINI_READ_TOOLS},google_web_search,web_fetch`],
+      full: ["--approval-mode", "yolo"],
+    },
   },
 };
 
-const parseJsonResult = (candidate: string): CliResult | null => {
-  const parsed = JSON.parse(candidate) as {
-    type?: string;
-    status?: string;
-    content?: string;
-    body?: string;
-    comment?: string;
-    title?: string;
-  };
-  const type = parsed.type ?? parsed.status;
-  if (type === "question" && parsed.content) {
-    return { type: "question", content: parsed.content };
+type CliResultSchema = {
+  required: string[];
+  optional: string[];
+  /** Required non-string fields, each checked by its own validator. */
+  structured?: Record<string, (value: unknown) => string[]>;
+};
+
+const SPLIT_ISSUE_KEYS = new Set(["title", "body", "labels"]);
+
+const validateSplitIssues = (value: unknown): string[] => {
+  if (!Array.isArray(value) || !value.length) {
+    return ['"issues" must be a non-empty list for type "split".'];
+  }
+  return value.flatMap((issue, index) => {
+    const path = `issues[${index}]`;
+    if (typeof issue !== "object" || issue === null || Array.isArray(issue)) {
+      return [`"${path}" must be an object.`];
+    }
+    const record = issue as Record<string, unknown>;
+    const errors = Object.keys(record)
+      .filter((key) => !SPLIT_ISSUE_KEYS.has(key))
+      .map((key) => `Unexpected property "${key}" in "${path}".`);
+    for (const key of ["title", "body"]) {
+      if (typeof record[key] !== "string" || !(record[key] as string).trim()) {
+        errors.push(`"${path}.${key}" must be a non-empty string.`);
+      }
+    }
+    const { labels } = record;
+    if (
+      labels !== undefined &&
+      labels !== null &&
+      (!Array.isArray(labels) || labels.some((label) => typeof label !== "string"))
+    ) {
+      errors.push(`"${path}.labels" must be a list of strings when provided.`);
+    }
+    return errors;
+  });
+};
+
+const CRITERION_KEYS = ["given", "when", "expected"];
+
+const validateCriteria = (value: unknown): string[] => {
+  if (!Array.isArray(value) || !value.length) {
+    return ['"criteria" must be a non-empty list for type "criteria".'];
+  }
+  return value.flatMap((criterion, index) => {
+    const path = `criteria[${index}]`;
+    if (typeof criterion !== "object" || criterion === null || Array.isArray(criterion)) {
+      return [`"${path}" must be an object.`];
+    }
+    const record = criterion as Record<string, unknown>;
+    const errors = Object.keys(record)
+      .filter((key) => !CRITERION_KEYS.includes(key))
+      .map((key) => `Unexpected property "${key}" in "${path}".`);
+    for (const key of CRITERION_KEYS) {
+      if (typeof record[key] !== "string" || !(record[key] as string).trim()) {
+        errors.push(`"${path}.${key}" must be a non-empty string.`);
+      }
+    }
+    return errors;
+  });
+};
+
+const validateTests = (value: unknown): string[] => {
+  if (!Array.isArray(value) || !value.length) {
+    return ['"tests" must be a non-empty list for type "criteria".'];
+  }
+  return value.flatMap((test, index) =>
+    typeof test === "string" && test.trim()
+      ? []
+      : [`"tests[${index}]" must be a non-empty string.`],
+  );
+};
+
+const CHECK_KEYS = new Set(["status", "requirement", "note"]);
+
+const validateChecks = (value: unknown): string[] => {
+  if (!Array.isArray(value) || !value.length) {
+    return ['"checks" must be a non-empty list for type "verify".'];
   }
-  if (type === "complete" && parsed.body) {
-    const title = typeof parsed.title === "string" ? parsed.title : undefined;
+  return value.flatMap((check, index) => {
+    const path = `checks[${index}]`;
+    if (typeof check !== "object" || check === null || Array.isArray(check)) {
+      return [`"${path}" must be an object.`];
+    }
+    const record = check as Record<string, unknown>;
+    const errors = Object.keys(record)
+      .filter((key) => !CHECK_KEYS.has(key))
+      .map((key) => `Unexpected property "${key}" in "${path}".`);
+    if (!VERIFICATION_STATUSES.includes(record.status as VerificationStatus)) {
+      errors.push(
+        `"${path}.status" must be one of ${VERIFICATION_STATUSES.map((status) => `"${status}"`).join(", ")}.`,
+      );
+    }
+    if (typeof record.requirement !== "string" || !record.requirement.trim()) {
+      errors.push(`"${path}.requirement" must be a non-empty string.`);
+    }
+    if (record.note !== undefined && record.note !== null && typeof record.note !== "string") {
+      errors.push(`"${path}.note" must be a string when provided.`);
+    }
+    return errors;
+  });
+};
+
+/**
+ * Strict schema for the JSON contract described in the prompt. `status` is accepted as
+ * an alias of `type`; any other property outside the schema is reported as an error.
+ */
+const CLI_RESULT_SCHEMAS: Record<CliResult["type"], CliResultSchema> = {
+  question: { required: ["content"], optional: [] },
+  complete: { required: ["body"], optional: ["comment", "title"] },
+  split: { required: [], optional: ["comment"], structured: { issues: validateSplitIssues } },
+  answer: { required: ["content"], optional: [] },
+  criteria: {
+    required: [],
+    optional: ["comment"],
+    structured: { criteria: validateCriteria, tests: validateTests },
+  },
+  verify: { required: [], optional: ["comment"], structured: { checks: validateChecks } },
+  no_change: { required: [], optional: [] },
+};
+
+/**
+ * Result types each task may return. Anything else fails validation and goes through the
+ * repair loop, so text in an issue cannot steer a refine run into creating sub-issues.
+ */
+export const TASK_RESULT_TYPES: Record<PromptTask, CliResult["type"][]> = {
+  refine: ["question", "complete", "no_change"],
+  split: ["split", "question", "no_change"],
+  ask: ["answer"],
+  criteria: ["criteria", "question", "no_change"],
+  verify: ["verify"],
+};
+
+type ValidationResult = { result: CliResult; errors?: undefined } | { errors: string[] };
+
+export const validateCliResult = (
+  value: unknown,
+  task: PromptTask = "refine",
+): ValidationResult => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { errors: ["Expected a JSON object."] };
+  }
+  const record = value as Record<string, unknown>;
+  const type = record.type ?? record.status;
+  const allowedTypes = Object.keys(CLI_RESULT_SCHEMAS).filter((name) =>
+    TASK_RESULT_TYPES[task].includes(name as CliResult["type"]),
+  );
+  if (typeof type !== "string" || !allowedTypes.includes(type)) {
     return {
-      type: "complete",
-      body: parsed.body,
-      comment: parsed.comment || DEFAULT_COMPLETION_COMMENT,
-      title,
+      errors: [`"type" must be one of ${allowedTypes.map((name) => `"${name}"`).join(", ")}.`],
     };
   }
-  if (type === "no_change") {
-    return { type: "no_change" };
+
+  const schema = CLI_RESULT_SCHEMAS[type as CliResult["type"]];
+  const errors: string[] = [];
+  const structured = schema.structured ?? {};
+  const known = new Set([
+    "type",
+    "status",
+    ...schema.required,
+    ...schema.optional,
+    ...Object.keys(structured),
+  ]);
+  for (const key of Object.keys(record)) {
+    if (!known.has(key)) {
+      errors.push(`Unexpected property "${key}" for type "${type}".`);
+    }
+  }
+  for (const key of schema.required) {
+    const field = record[key];
+    if (typeof field !== "string" || !field.trim()) {
+      errors.push(`"${key}" must be a non-empty string for type "${type}".`);
+    }
+  }
+  for (const key of schema.optional) {
+    const field = record[key];
+    if (field !== undefined && field !== null && typeof field !== "string") {
+      errors.push(`"${key}" must be a string when provided.`);
+    }
+  }
+  for (const [key, validate] of Object.entries(structured)) {
+    errors.push(...validate(record[key]));
+  }
+  if (errors.length) {
+    return { errors };
+  }
+
+  const optionalString = (key: string): string | undefined =>
+    typeof record[key] === "string" ? (record[key] as string) : undefined;
+  switch (type) {
+    case "question":
+      return { result: { type: "question", content: record.content as string } };
+    case "complete":
+      return {
+        result: {
+          type: "complete",
+          body: record.body as string,
+          comment: optionalString("comment") || DEFAULT_COMPLETION_COMMENT,
+          title: optionalString("title"),
+        },
+      };
+    case "split":
+      return {
+        result: {
+          type: "split",
+          issues: (record.issues as Array<Record<string, unknown>>).map((issue) => ({
+            title: (issue.title as string).trim(),
+            body: issue.body as string,
+            labels: Array.isArray(issue.labels)
+              ? (issue.labels as string[]).map((label) => label.trim()).filter(Boolean)
+              : [],
+          })),
+          comment: optionalString("comment"),
+        },
+      };
+    case "answer":
+      return { result: { type: "answer", content: record.content as string } };
+    case "criteria":
+      return {
+        result: {
+          type: "criteria",
+          criteria: (record.criteria as Array<Record<string, string>>).map((criterion) => ({
+            given: criterion.given.trim(),
+            when: criterion.when.trim(),
+            expected: criterion.expected.trim(),
+          })),
+          tests: (record.tests as string[]).map((test) => test.trim()),
+          comment: optionalString("comment"),
+        },
+      };
+    case "verify":
+      return {
+        result: {
+          type: "verify",
+          checks: (record.checks as Array<Record<string, unknown>>).map((check) => ({
+            status: check.status as VerificationStatus,
+            requirement: (check.requirement as string).trim(),
+            note: typeof check.note === "string" ? check.note.trim() || undefined : undefined,
+          })),
+          comment: optionalString("comment"),
+        },
+      };
+    default:
+      return { result: { type: "no_change" } };
   }
-  return null;
 };
 
-export const parseCliOutput = (output: string): ParseResult => {
+export const parseCliOutput = (output: string, task: PromptTask = "refine"): ParseResult => {
   const trimmed = output.trim();
   if (!trimmed) {
     return {
       result: { type: "question", content: "No output received from agent." },
       parseFailed: true,
+      errors: ["No output received from agent."],
     };
   }
 
+  let validationErrors: string[] | undefined;
   const parseCandidate = (candidate: string): CliResult | null => {
+    let parsed: unknown;
     try {
-      return parseJsonResult(candidate);
+      parsed = JSON.parse(candidate);
     } catch {
       // First attempt failed, try repairing malformed JSON before parsing again.
       try {
-        return parseJsonResult(repairJson(candidate));
+        parsed = JSON.parse(repairJson(candidate));
       } catch {
         return null;
       }
     }
+    const validation = validateCliResult(parsed, task);
+    if (validation.errors) {
+      validationErrors ??= validation.errors;
+      return null;
+    }
+    return validation.result;
   };
 
   const direct = parseCandidate(trimmed);
@@ -124,42 +585,139 @@ export const parseCliOutput = (output: string): ParseResult => {
   const firstBrace = trimmed.indexOf("{");
   const lastBrace = trimmed.lastIndexOf("}");
   if (firstBrace !== -1 && lastBrace > firstBrace) {
-    try {
-      const sliced = trimmed.slice(firstBrace, lastBrace + 1);
-      const extracted = parseCandidate(sliced);
-      if (extracted) {
-        return { result: extracted, parseFailed: false };
-      }
-    } catch {
-      // Fall back to raw output.
+    const extracted = parseCandidate(trimmed.slice(firstBrace, lastBrace + 1));
+    if (extracted) {
+      return { result: extracted, parseFailed: false };
     }
   }
 
-  return { result: { type: "question", content: trimmed }, parseFailed: true };
+  return {
+    result: { type: "question", content: trimmed },
+    parseFailed: true,
+    errors: validationErrors ?? ["Output does not contain a valid JSON object."],
+  };
+};
+
+export const parseAgentOutput = (
+  output: string,
+  format: OutputFormat = "text",
+  task: PromptTask = "refine",
+): ParseResult => {
+  const native = parseNativeOutput(format, output);
+  if (!native) {
+    return parseCliOutput(output, task);
+  }
+  return {
+    ...parseCliOutput(native.message, task),
+    toolUses: native.toolUses,
+    usage: native.usage,
+  };
+};
+
+// Expands ${NAME} references so config files can pass runner secrets through to the agent.
+const resolveEnv = (env: Record<string, string>): Record<string, string> => {
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    resolved[key] = value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      return process.env[name] ?? "";
+    });
+  }
+  return resolved;
 };
 
-const createAdapter = (config: AgentConfig): ProviderAdapter => ({
-  name: config.name,
-  buildCommand: () => ({
-    cmd: "bunx",
-    args: [config.package, ...config.args],
-  }),
+const EXACT_VERSION_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?$/;
+
+export const isExactVersion = (version: string): boolean => EXACT_VERSION_PATTERN.test(version);
+
+// Scoped packages start with "@", so only a later "@" separates the version.
+const stripPackageVersion = (pkg: string): string => {
+  const versionIndex = pkg.lastIndexOf("@");
+  return versionIndex > 0 ? pkg.slice(0, versionIndex) : pkg;
+};
+
+export const formatPackageSpec = (config: AgentConfig): string | undefined => {
+  if (!config.package) {
+    return undefined;
+  }
+  return config.version
+    ? `${stripPackageVersion(config.package)}@${config.version}`
+    : config.package;
+};
+
+const createHttpAdapter = (name: string, http: HttpAgentConfig): ProviderAdapter => ({
+  name,
+  source: `${http.model} via ${http.baseUrl}`,
+  output: "openai-chat-json",
+  request: (prompt, timeoutMs) => requestChatCompletion(name, http, prompt, timeoutMs),
   buildPrompt: buildPrompt,
-  parseOutput: parseCliOutput,
+  parseOutput: (output, task) => parseAgentOutput(output, "openai-chat-json", task),
 });
 
-export const getAdapter = (agent: string): ProviderAdapter => {
+const createAdapter = (config: AgentConfig, profile: PermissionProfile): ProviderAdapter => {
+  if (config.http) {
+    return createHttpAdapter(config.name, config.http);
+  }
+  const packageSpec = formatPackageSpec(config);
+  const permissionArgs = config.permissions?.[profile];
+  const args = [...config.args, ...(permissionArgs ?? [])];
+  return {
+    name: config.name,
+    source: config.command ?? packageSpec ?? "",
+    permissionProfile: permissionArgs ? profile : undefined,
+    buildCommand: () => {
+      if (!permissionArgs && profile !== "full") {
+        throw new Error(
+          `Agent "${config.name}" does not declare flags for the "${profile}" permission profile. Add permissions.${profile} to its config, even as an empty list, to run it with that profile.`,
+        );
+      }
+      const env = config.env ? resolveEnv(config.env) : undefined;
+      const prompt = config.prompt ?? "stdin";
+      if (config.command) {
+        return { cmd: config.command, args: [...args], env, prompt };
+      }
+      if (!packageSpec) {
+        throw new Error(`Agent "${config.name}" defines neither a command nor a package.`);
+      }
+      return { cmd: "bunx", args: [packageSpec, ...args], env, prompt };
+    },
+    output: config.output,
+    buildPrompt: buildPrompt,
+    parseOutput: (output, task) => parseAgentOutput(output, config.output, task),
+  };
+};
+
+const mergeAgentConfigs = (
+  customAgents: Record<string, AgentConfig>,
+): Record<string, AgentConfig> => ({ ...AGENT_CONFIGS, ...customAgents });
+
+export const getAdapter = (
+  agent: string,
+  customAgents: Record<string, AgentConfig> = {},
+  versionOverride?: string,
+  permissionProfile: PermissionProfile = "full",
+): ProviderAdapter => {
   const key = agent.toLowerCase();
-  const config = AGENT_CONFIGS[key];
+  const configs = mergeAgentConfigs(customAgents);
+  const config = configs[key];
 
   if (config) {
-    return createAdapter(config);
+    if (versionOverride && !config.package) {
+      const kind = config.http ? "calls an HTTP endpoint" : "runs a command";
+      throw new Error(`Agent "${config.name}" ${kind}, so its version cannot be overridden.`);
+    }
+    return createAdapter(
+      versionOverride ? { ...config, version: versionOverride } : config,
+      permissionProfile,
+    );
   }
 
-  const supported = Object.keys(AGENT_CONFIGS).sort().join(", ");
+  const supported = Object.keys(configs).sort().join(", ");
   throw new Error(`Unknown agent "${agent}". Supported agents: ${supported}`);
 };
 
-export const getAgentConfig = (agent: string): AgentConfig | undefined => {
-  return AGENT_CONFIGS[agent.toLowerCase()];
+export const getAgentConfig = (
+  agent: string,
+  customAgents: Record<string, AgentConfig> = {},
+): AgentConfig | undefined => {
+  return mergeAgentConfigs(customAgents)[agent.toLowerCase()];
 };
@@ -1,38 +1,100 @@
 import { COMMAND_PATTERN, FOOTER } from "./constants";
 
-export type CommentCommand = "continue" | "reset" | "help";
+export type CommentCommand =
+  | "continue"
+  | "reset"
+  | "undo"
+  | "split"
+  | "ask"
+  | "criteria"
+  | "verify"
+  | "diff"
+  | "help";
 
 export type EventPayload = {
-  issue?: { number?: number; body?: string; pull_request?: object };
-  pull_request?: { number?: number; body?: string };
-  comment?: { body?: string; created_at?: string };
+  issue?: { number?: number; body?: string; pull_request?: object; author_association?: string };
+  pull_request?: { number?: number; body?: string; author_association?: string };
+  comment?: { body?: string; created_at?: string; author_association?: string };
+};
+
+const TRUSTED_AUTHOR_ASSOCIATIONS = new Set(["OWNER", "MEMBER", "COLLABORATOR"]);
+
+/**
+ * Whether the issue or pull request, and the command comment when there is one, were
+ * written by an owner, member or collaborator of the repository.
+ */
+export const isTrustedEvent = (eventName: string, event: EventPayload): boolean => {
+  const associations = [
+    eventName === "pull_request"
+      ? event.pull_request?.author_association
+      : event.issue?.author_association,
+  ];
+  if (eventName === "issue_comment") {
+    associations.push(event.comment?.author_association);
+  }
+  return associations.every((association) =>
+    TRUSTED_AUTHOR_ASSOCIATIONS.has(association?.toUpperCase() ?? ""),
+  );
 };
 
 export const hasFooter = (text: string): boolean => text.includes(FOOTER);
 
-export const parseCommand = (text: string): CommentCommand | null => {
+export type ParsedCommand = {
+  command: CommentCommand;
+  /**
+   * Text after the subcommand on the same line, e.g. the revision selector of a reset or
+   * the count of an undo. For `ask` it is the rest of the comment.
+   */
+  argument?: string;
+};
+
+export const parseCommand = (text: string): ParsedCommand | null => {
   const match = COMMAND_PATTERN.exec(text);
   if (!match) {
     return null;
   }
   const subcommand = match[1]?.toLowerCase();
+  const argument = match[2]?.trim() || undefined;
   switch (subcommand) {
     case "reset":
-      return "reset";
+      return { command: "reset", argument };
+    case "undo":
+      return { command: "undo", argument };
+    case "split":
+      return { command: "split" };
+    case "ask":
+      return {
+        command: "ask",
+        argument:
+          `${match[2] ?? ""}${text.slice(match.index + match[0].length)}`.trim() || undefined,
+      };
+    case "criteria":
+      return { command: "criteria" };
+    case "verify":
+      return { command: "verify" };
+    case "diff":
+      return { command: "diff", argument };
     case "help":
-      return "help";
+      return { command: "help" };
     default:
-      return "continue";
+      return { command: "continue" };
   }
 };
 
+export type ProcessOptions = {
+  /** Verify pull requests against the issues they close instead of refining them. */
+  verifyPullRequests?: boolean;
+};
+
 export const shouldProcess = (
   eventName: string,
   event: EventPayload,
+  { verifyPullRequests = false }: ProcessOptions = {},
 ): {
   shouldRun: boolean;
   reason?: string;
   command?: CommentCommand;
+  commandArgument?: string;
   commandCreatedAt?: string;
 } => {
   if (eventName === "issue_comment") {
@@ -43,8 +105,8 @@ export const shouldProcess = (
         reason: "Skipping: comment generated by Spec Gardener.",
       };
     }
-    const command = parseCommand(commentBody);
-    if (!command) {
+    const parsed = parseCommand(commentBody);
+    if (!parsed) {
       return {
         shouldRun: false,
         reason: "Skipping: comment does not contain /spec-gardener command.",
@@ -52,12 +114,17 @@ export const shouldProcess = (
     }
     return {
       shouldRun: true,
-      command,
+      command: parsed.command,
+      commandArgument: parsed.argument,
       commandCreatedAt: event.comment?.created_at,
     };
   }
 
   if (eventName === "pull_request") {
+    // Verification only comments, so a description written by Spec Gardener is no reason to skip.
+    if (verifyPullRequests) {
+      return { shouldRun: true, command: "verify" };
+    }
     const pullBody = event.pull_request?.body ?? "";
     if (hasFooter(pullBody)) {
       return {
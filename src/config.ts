@@ -0,0 +1,261 @@
+import { YAML } from "bun";
+import {
+  PERMISSION_PROFILES,
+  type AgentConfig,
+  type HttpAgentConfig,
+  type OutputFormat,
+  type PermissionProfile,
+  type PromptTransport,
+} from "./adapters";
+
+export type SpecGardenerConfig = {
+  agents: Record<string, AgentConfig>;
+  /** Package versions per agent name, overriding built-in defaults and agent definitions. */
+  versions: Record<string, string>;
+};
+
+export const DEFAULT_CONFIG_PATH = ".github/spec-gardener.yml";
+
+const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const AGENT_KEYS = new Set([
+  "command",
+  "package",
+  "version",
+  "args",
+  "env",
+  "prompt",
+  "output",
+  "permissions",
+  "http",
+]);
+const HTTP_KEYS = new Set(["base_url", "model", "api_key_env", "temperature", "json_mode"]);
+const CONFIG_KEYS = new Set(["agents", "versions"]);
+const PROMPT_TRANSPORTS: PromptTransport[] = ["argv", "stdin", "file"];
+const OUTPUT_FORMATS: OutputFormat[] = [
+  "text",
+  "claude-stream-json",
+  "codex-json",
+  "gemini-json",
+  "openai-chat-json",
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const parsePermissions = (
+  label: string,
+  raw: unknown,
+  errors: string[],
+): AgentConfig["permissions"] => {
+  if (!isRecord(raw)) {
+    errors.push(`${label}: expected a mapping of permission profiles to argument lists.`);
+    return undefined;
+  }
+  const permissions: AgentConfig["permissions"] = {};
+  for (const [profile, args] of Object.entries(raw)) {
+    if (!PERMISSION_PROFILES.includes(profile as PermissionProfile)) {
+      errors.push(
+        `${label}: unknown profile "${profile}" (expected ${PERMISSION_PROFILES.join(", ")}).`,
+      );
+    } else if (!isStringList(args)) {
+      errors.push(`${label}.${profile}: expected a list of strings.`);
+    } else {
+      permissions[profile as PermissionProfile] = args;
+    }
+  }
+  return permissions;
+};
+
+const parseHttpEntry = (
+  label: string,
+  raw: unknown,
+  errors: string[],
+): HttpAgentConfig | undefined => {
+  if (!isRecord(raw)) {
+    errors.push(`${label}: expected a mapping.`);
+    return undefined;
+  }
+  for (const key of Object.keys(raw)) {
+    if (!HTTP_KEYS.has(key)) {
+      errors.push(`${label}: unknown key "${key}".`);
+    }
+  }
+
+  const {
+    base_url: baseUrl,
+    model,
+    api_key_env: apiKeyEnv,
+    temperature,
+    json_mode: jsonMode,
+  } = raw;
+  if (!isNonEmptyString(baseUrl) || !/^https?:\/\//.test(baseUrl)) {
+    errors.push(`${label}.base_url: expected an http(s) URL.`);
+  }
+  if (!isNonEmptyString(model)) {
+    errors.push(`${label}.model: expected a non-empty string.`);
+  }
+  if (apiKeyEnv !== undefined && !isNonEmptyString(apiKeyEnv)) {
+    errors.push(`${label}.api_key_env: expected a non-empty string.`);
+  }
+  if (
+    temperature !== undefined &&
+    !(typeof temperature === "number" && temperature >= 0 && temperature <= 2)
+  ) {
+    errors.push(`${label}.temperature: expected a number between 0 and 2.`);
+  }
+  if (jsonMode !== undefined && typeof jsonMode !== "boolean") {
+    errors.push(`${label}.json_mode: expected true or false.`);
+  }
+
+  return {
+    baseUrl: isNonEmptyString(baseUrl) ? baseUrl : "",
+    model: isNonEmptyString(model) ? model : "",
+    apiKeyEnv: isNonEmptyString(apiKeyEnv) ? apiKeyEnv : undefined,
+    temperature: typeof temperature === "number" ? temperature : undefined,
+    jsonMode: jsonMode === true,
+  };
+};
+
+const parseAgentEntry = (name: string, raw: unknown, errors: string[]): AgentConfig | undefined => {
+  const label = `agents.${name}`;
+  if (!AGENT_NAME_PATTERN.test(name)) {
+    errors.push(`${label}: agent names may only contain a-z, 0-9, ".", "_" and "-".`);
+  }
+  if (!isRecord(raw)) {
+    errors.push(`${label}: expected a mapping.`);
+    return undefined;
+  }
+  for (const key of Object.keys(raw)) {
+    if (!AGENT_KEYS.has(key)) {
+      errors.push(`${label}: unknown key "${key}".`);
+    }
+  }
+
+  const { command, package: pkg, version, args, env, prompt, output, permissions, http } = raw;
+  if (command !== undefined && !isNonEmptyString(command)) {
+    errors.push(`${label}.command: expected a non-empty string.`);
+  }
+  if (pkg !== undefined && !isNonEmptyString(pkg)) {
+    errors.push(`${label}.package: expected a non-empty string.`);
+  }
+  if (version !== undefined && !isNonEmptyString(version)) {
+    errors.push(`${label}.version: expected a non-empty string (quote numeric versions).`);
+  }
+  if (version !== undefined && pkg === undefined) {
+    errors.push(`${label}.version: only applies to agents that run a package.`);
+  }
+  if (command === undefined && pkg === undefined && http === undefined) {
+    errors.push(`${label}: one of "command", "package" or "http" is required.`);
+  }
+  if (http !== undefined && (command !== undefined || pkg !== undefined)) {
+    errors.push(`${label}: "http" cannot be combined with "command" or "package".`);
+  }
+  if (command !== undefined && pkg !== undefined) {
+    errors.push(`${label}: "command" and "package" are mutually exclusive.`);
+  }
+  if (args !== undefined && !isStringList(args)) {
+    errors.push(`${label}.args: expected a list of strings.`);
+  }
+  if (
+    env !== undefined &&
+    !(isRecord(env) && Object.values(env).every((value) => typeof value === "string"))
+  ) {
+    errors.push(`${label}.env: expected a mapping of strings.`);
+  }
+  const isPromptTransport = PROMPT_TRANSPORTS.includes(prompt as PromptTransport);
+  if (prompt !== undefined && !isPromptTransport) {
+    errors.push(`${label}.prompt: expected one of ${PROMPT_TRANSPORTS.join(", ")}.`);
+  }
+  const isOutputFormat = OUTPUT_FORMATS.includes(output as OutputFormat);
+  if (output !== undefined && !isOutputFormat) {
+    errors.push(`${label}.output: expected one of ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+
+  return {
+    name,
+    command: isNonEmptyString(command) ? command : undefined,
+    package: isNonEmptyString(pkg) ? pkg : undefined,
+    version: isNonEmptyString(version) ? version : undefined,
+    args: Array.isArray(args) ? (args as string[]) : [],
+    env: isRecord(env) ? (env as Record<string, string>) : undefined,
+    prompt: isPromptTransport ? (prompt as PromptTransport) : undefined,
+    output: isOutputFormat ? (output as OutputFormat) : undefined,
+    permissions:
+      permissions === undefined
+        ? undefined
+        : parsePermissions(`${label}.permissions`, permissions, errors),
+    http: http === undefined ? undefined : parseHttpEntry(`${label}.http`, http, errors),
+  };
+};
+
+export const parseConfig = (source: string, path = DEFAULT_CONFIG_PATH): SpecGardenerConfig => {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid Spec Gardener config at ${path}: ${message}`);
+  }
+
+  const config: SpecGardenerConfig = { agents: {}, versions: {} };
+  if (raw === null || raw === undefined) {
+    return config;
+  }
+
+  const errors: string[] = [];
+  if (!isRecord(raw)) {
+    errors.push("expected a mapping at the top level.");
+  } else {
+    for (const key of Object.keys(raw)) {
+      if (!CONFIG_KEYS.has(key)) {
+        errors.push(`unknown key "${key}".`);
+      }
+    }
+    if (raw.versions !== undefined && !isRecord(raw.versions)) {
+      errors.push("versions: expected a mapping of agent names to versions.");
+    } else if (raw.versions) {
+      for (const [name, version] of Object.entries(raw.versions)) {
+        if (isNonEmptyString(version)) {
+          config.versions[name.toLowerCase()] = version.trim();
+        } else {
+          errors.push(`versions.${name}: expected a non-empty string (quote numeric versions).`);
+        }
+      }
+    }
+    if (raw.agents !== undefined && !isRecord(raw.agents)) {
+      errors.push("agents: expected a mapping of agent names to agent definitions.");
+    } else if (raw.agents) {
+      for (const [name, entry] of Object.entries(raw.agents)) {
+        const key = name.toLowerCase();
+        const agent = parseAgentEntry(key, entry, errors);
+        if (agent) {
+          config.agents[key] = agent;
+        }
+      }
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(
+      `Invalid Spec Gardener config at ${path}:\n${errors.map((error) => `- ${error}`).join("\n")}`,
+    );
+  }
+  return config;
+};
+
+export const loadConfig = async (path: string, required = false): Promise<SpecGardenerConfig> => {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    if (required) {
+      throw new Error(`Spec Gardener config not found at ${path}.`);
+    }
+    return { agents: {}, versions: {} };
+  }
+  return parseConfig(await file.text(), path);
+};
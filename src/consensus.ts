@@ -0,0 +1,120 @@
+import type { CliResult } from "./adapters";
+
+export type ConsensusStrategy = "fallback" | "consensus";
+
+export const CONSENSUS_STRATEGIES: ConsensusStrategy[] = ["fallback", "consensus"];
+
+/** Judge value that merges votes with deterministic rules instead of asking an agent. */
+export const MERGE_JUDGE = "merge";
+
+export type AgentVote = {
+  agent: string;
+  result: CliResult;
+};
+
+// Ties between result types resolve towards asking questions, then towards updating the spec.
+const TYPE_PRIORITY: CliResult["type"][] = [
+  "question",
+  "complete",
+  "split",
+  "criteria",
+  "verify",
+  "answer",
+  "no_change",
+];
+
+export const describeVote = (vote: AgentVote): string => {
+  const { result } = vote;
+  switch (result.type) {
+    case "question":
+      return `question (${result.content.length} chars)`;
+    case "complete":
+      return `complete (body ${result.body.length} chars${result.title ? ", with title" : ""})`;
+    case "split":
+      return `split (${result.issues.length} issue${result.issues.length === 1 ? "" : "s"})`;
+    case "answer":
+      return `answer (${result.content.length} chars)`;
+    case "verify":
+      return `verify (${result.checks.length} check${result.checks.length === 1 ? "" : "s"})`;
+    case "criteria":
+      return `criteria (${result.criteria.length} criteria, ${result.tests.length} tests)`;
+    default:
+      return result.type;
+  }
+};
+
+type TextResult = Extract<CliResult, { type: "question" | "answer" }>;
+type CompleteResult = Extract<CliResult, { type: "complete" }>;
+
+// Distinct questions (or answers) are all kept, each credited to the agent that wrote it.
+const mergeTexts = (votes: AgentVote[], type: TextResult["type"]): CliResult => {
+  const texts = new Map<string, { agent: string; result: TextResult }>();
+  for (const { agent, result } of votes) {
+    if (result.type === type && !texts.has(result.content.trim())) {
+      texts.set(result.content.trim(), { agent, result });
+    }
+  }
+  const unique = [...texts.values()];
+  if (unique.length === 1) {
+    return unique[0].result;
+  }
+  const content = unique
+    .map(({ agent, result }) => `**${agent}**\n\n${result.content.trim()}`)
+    .join("\n\n");
+  return { type, content };
+};
+
+const pickMostComplete = (votes: AgentVote[]): CliResult => {
+  let best: CompleteResult | undefined;
+  for (const { result } of votes) {
+    if (
+      result.type === "complete" &&
+      (!best || result.body.trim().length > best.body.trim().length)
+    ) {
+      best = result;
+    }
+  }
+  return best ?? { type: "no_change" };
+};
+
+// Structured results cannot be combined meaningfully, so the first agent's proposal wins.
+const pickFirstOfType = (votes: AgentVote[], type: CliResult["type"]): CliResult =>
+  votes.find(({ result }) => result.type === type)?.result ?? { type: "no_change" };
+
+/**
+ * Deterministically merges agent votes. The majority result type wins; all clarifying
+ * questions, and all answers, are combined, among completed specs the longest body is
+ * kept, and other result types take the first agent's proposal.
+ */
+export const mergeVotes = (votes: AgentVote[]): CliResult => {
+  if (!votes.length) {
+    throw new Error("Cannot merge an empty set of votes.");
+  }
+  const counts = new Map<CliResult["type"], number>();
+  for (const vote of votes) {
+    counts.set(vote.result.type, (counts.get(vote.result.type) ?? 0) + 1);
+  }
+  let winner = TYPE_PRIORITY[0];
+  for (const type of TYPE_PRIORITY) {
+    if ((counts.get(type) ?? 0) > (counts.get(winner) ?? 0)) {
+      winner = type;
+    }
+  }
+
+  switch (winner) {
+    case "question":
+      return mergeTexts(votes, "question");
+    case "complete":
+      return pickMostComplete(votes);
+    case "split":
+      return pickFirstOfType(votes, "split");
+    case "criteria":
+      return pickFirstOfType(votes, "criteria");
+    case "verify":
+      return pickFirstOfType(votes, "verify");
+    case "answer":
+      return mergeTexts(votes, "answer");
+    default:
+      return { type: "no_change" };
+  }
+};
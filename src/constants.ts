@@ -1,12 +1,33 @@
 export const FOOTER = "🤖 Generated by Spec Gardener";
-export const COMMAND_PATTERN = /\/spec-gardener(?:\s+(reset|help))?\b/i;
+export const COMMAND_PATTERN =
+  /\/spec-gardener\b(?:\s+(reset|undo|split|ask|criteria|verify|diff|help)\b(?:[ \t]+([^\n]*))?)?/i;
 export const DEFAULT_AGENT_TIMEOUT_MS = 120000;
+export const DEFAULT_MAX_PARSE_ATTEMPTS = 3;
+export const DEFAULT_CONTEXT_BUDGET = 400000;
+export const DEFAULT_DIFF_BUDGET = 20000;
+export const DEFAULT_GUIDELINES_LIMIT = 20000;
+export const DEFAULT_RELATED_ITEMS_LIMIT = 5;
+export const DEFAULT_RELATED_ITEMS_DEPTH = 1;
+export const RELATED_ITEM_BODY_LIMIT = 1500;
+export const HIERARCHY_BODY_LIMIT = 500;
 export const THUMBS_UP_REACTION = "+1";
+// Keeps diff comments well below GitHub's 65536-character comment limit.
+export const MAX_DIFF_COMMENT_LENGTH = 60000;
+export const PROMPT_FILE_PLACEHOLDER = "{prompt_file}";
+// Delimit the acceptance criteria section so later runs can refresh it in place.
+export const CRITERIA_START_MARKER = "<!-- spec-gardener:criteria -->";
+export const CRITERIA_END_MARKER = "<!-- /spec-gardener:criteria -->";
 
 export const COMMANDS_HINT = "💡 Type `/spec-gardener help` for available commands";
 
 export const COMMANDS_LIST = [
   "- `/spec-gardener` - Continue the conversation to refine this specification",
-  "- `/spec-gardener reset` - Re-analyze from the original description and comments from the reset point onward",
+  "- `/spec-gardener reset [revision]` - Re-analyze from the original description (or a given revision number, timestamp or `last-human`) and comments from the reset point onward",
+  "- `/spec-gardener undo [count]` - Restore the description and title from before the last edit (or the last `count` edits)",
+  "- `/spec-gardener split` - Break this issue into sub-issues and add a checklist of them to the description",
+  "- `/spec-gardener ask <question>` - Ask a question about this specification or the code it affects; the answer is posted as a comment and the description is left unchanged",
+  "- `/spec-gardener criteria` - Add or refresh Given/When/Then acceptance criteria and a test plan in the description",
+  "- `/spec-gardener verify` - Check this pull request against the specs of the issues it closes",
+  "- `/spec-gardener diff [previous]` - Show how the description changed since the original (or the previous Spec Gardener revision)",
   "- `/spec-gardener help` - Show available commands",
 ].join("\n");
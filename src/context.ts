@@ -1,19 +1,95 @@
 import core from "@actions/core";
 import { Octokit } from "octokit";
-import type { SpecContext } from "./adapters";
-import { FOOTER } from "./constants";
+import type {
+  HierarchyIssue,
+  IssueComment,
+  IssueHierarchy,
+  LinkedIssue,
+  PullRequestReview,
+  RelatedItem,
+  ReviewThread,
+  SpecContext,
+  SpecMetadata,
+} from "./adapters";
+import { hasFooter } from "./commands";
+import { FOOTER, HIERARCHY_BODY_LIMIT, RELATED_ITEM_BODY_LIMIT } from "./constants";
+import { buildSpecBody, stripCommentBoilerplate } from "./format";
+import { applyPatchBudget } from "./patches";
+import { extractReferences, formatReference, type ItemReference } from "./references";
+
+type UserContentEditNode = {
+  body?: string | null;
+  editedAt?: string | null;
+  editor?: { login?: string } | null;
+} | null;
+
+type UserContentEditsConnection = {
+  pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+  nodes?: UserContentEditNode[];
+};
 
 type UserContentEditsResponse = {
   repository?: {
-    issue?: {
-      userContentEdits?: { nodes?: Array<{ body?: string | null }> };
-    };
+    issue?: { userContentEdits?: UserContentEditsConnection };
+    pullRequest?: { userContentEdits?: UserContentEditsConnection };
+  };
+};
+
+type ReviewThreadsResponse = {
+  repository?: {
     pullRequest?: {
-      userContentEdits?: { nodes?: Array<{ body?: string | null }> };
+      reviewThreads?: {
+        pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+        nodes?: Array<{
+          path?: string;
+          line?: number | null;
+          originalLine?: number | null;
+          isResolved?: boolean;
+          isOutdated?: boolean;
+          comments?: {
+            nodes?: Array<{
+              author?: { login?: string } | null;
+              body?: string;
+              createdAt?: string;
+            } | null>;
+          };
+        } | null>;
+      };
     };
   };
 };
 
+type HierarchyIssueNode = {
+  number?: number;
+  title?: string | null;
+  state?: string | null;
+  body?: string | null;
+  repository?: { nameWithOwner?: string } | null;
+} | null;
+
+type IssueHierarchyResponse = {
+  repository?: {
+    issue?: {
+      parent?: (HierarchyIssueNode & { subIssues?: { nodes?: HierarchyIssueNode[] } }) | null;
+    } | null;
+  };
+};
+
+type ClosingIssuesResponse = {
+  repository?: {
+    pullRequest?: {
+      closingIssuesReferences?: {
+        nodes?: Array<{
+          number?: number;
+          title?: string | null;
+          body?: string | null;
+          repository?: { nameWithOwner?: string } | null;
+        } | null>;
+      };
+    } | null;
+  };
+};
+
 const stripFooter = (body: string): string => {
   const footerIndex = body.indexOf(FOOTER);
   if (footerIndex === -1) {
@@ -23,22 +99,187 @@ const stripFooter = (body: string): string => {
   return withoutFooter.replace(/\n---\s*$/, "").trimEnd();
 };
 
-const fetchOriginalDescription = async (
+type CommentData = {
+  user?: { login?: string } | null;
+  body?: string | null;
+  created_at?: string;
+};
+
+// Our own comments carry the footer; their boilerplate is noise in the conversation.
+const toConversationComment = (comment: CommentData): IssueComment => {
+  const body = comment.body ?? "";
+  const isOwn = hasFooter(body);
+  return {
+    author: comment.user?.login ?? "unknown",
+    body: isOwn ? stripCommentBoilerplate(body) : body,
+    createdAt: comment.created_at ?? "",
+    role: isOwn ? "assistant" : "user",
+  };
+};
+
+const truncateBody = (body: string, limit: number): string =>
+  body.length > limit ? `${body.slice(0, limit).trimEnd()}\n[truncated]` : body;
+
+type LabelData = string | { name?: string };
+
+const getLabelNames = (labels: LabelData[] | undefined): string[] =>
+  (labels ?? [])
+    .map((label) => (typeof label === "string" ? label : (label.name ?? "")))
+    .filter(Boolean);
+
+const buildMetadata = (data: {
+  labels?: LabelData[];
+  milestone?: { title?: string } | null;
+  assignees?: Array<{ login?: string }> | null;
+  type?: { name?: string } | null;
+}): SpecMetadata => ({
+  labels: getLabelNames(data.labels),
+  milestone: data.milestone?.title || undefined,
+  assignees: (data.assignees ?? []).map((assignee) => assignee.login ?? "").filter(Boolean),
+  issueType: data.type?.name || undefined,
+});
+
+/** One version of the description from its edit history, numbered from 1 (oldest). */
+export type SpecRevision = {
+  number: number;
+  total: number;
+  body: string;
+  editedAt?: string;
+  editor?: string;
+};
+
+/**
+ * Loads every revision of the description, oldest first. GitHub lists edits newest
+ * first, so all pages are collected before numbering them. Edits whose content was
+ * deleted are skipped.
+ */
+const fetchEditHistory = async (
   octokit: Octokit,
   owner: string,
   repo: string,
   number: number,
   itemType: "issue" | "pullRequest",
-  fallbackBody: string,
-): Promise<string> => {
-  try {
-    const response = await octokit.graphql<UserContentEditsResponse>(
-      `query($owner: String!, $repo: String!, $number: Int!) {
+): Promise<SpecRevision[]> => {
+  const nodes: UserContentEditNode[] = [];
+  let cursor: string | null = null;
+  do {
+    const response: UserContentEditsResponse = await octokit.graphql<UserContentEditsResponse>(
+      `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
         repository(owner: $owner, name: $repo) {
           ${itemType}(number: $number) {
-            userContentEdits(last: 100) {
+            userContentEdits(first: 100, after: $cursor) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
               nodes {
                 body
+                editedAt
+                editor {
+                  login
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { owner, repo, number, cursor },
+    );
+    const connection = response.repository?.[itemType]?.userContentEdits;
+    nodes.push(...(connection?.nodes ?? []));
+    cursor = connection?.pageInfo?.hasNextPage ? (connection.pageInfo.endCursor ?? null) : null;
+  } while (cursor);
+
+  const edits = nodes.reverse().flatMap((node) => (typeof node?.body === "string" ? [node] : []));
+  return edits.map((node, index) => ({
+    number: index + 1,
+    total: edits.length,
+    body: node?.body ?? "",
+    editedAt: node?.editedAt ?? undefined,
+    editor: node?.editor?.login ?? undefined,
+  }));
+};
+
+export const LAST_HUMAN_SELECTOR = "last-human";
+
+/**
+ * Picks the revision a reset starts from. Without a selector this is the oldest revision
+ * not written by Spec Gardener. A selector is a revision number, a timestamp (the latest
+ * revision edited at or before it) or "last-human" (the newest revision not written by
+ * Spec Gardener). `problem` explains why a selector could not be honoured, in which case
+ * the default revision is returned instead.
+ */
+export const selectRevision = (
+  revisions: SpecRevision[],
+  selector = "",
+): { revision?: SpecRevision; problem?: string } => {
+  const original = revisions.find((revision) => !revision.body.includes(FOOTER));
+  const newestFirst = revisions.slice().reverse();
+  const raw = selector.trim();
+  if (!raw) {
+    return { revision: original };
+  }
+  if (raw.toLowerCase() === LAST_HUMAN_SELECTOR) {
+    return { revision: newestFirst.find((revision) => !revision.body.includes(FOOTER)) };
+  }
+  if (/^\d+$/.test(raw)) {
+    const revision = revisions[Number(raw) - 1];
+    return revision
+      ? { revision }
+      : { revision: original, problem: `Revision ${raw} does not exist.` };
+  }
+  const time = Date.parse(raw);
+  if (Number.isNaN(time)) {
+    return { revision: original, problem: `Unknown reset selector "${raw}".` };
+  }
+  const revision = newestFirst.find(
+    (candidate) => candidate.editedAt !== undefined && Date.parse(candidate.editedAt) <= time,
+  );
+  return revision
+    ? { revision }
+    : { revision: original, problem: `No revision was edited at or before ${raw}.` };
+};
+
+const toHierarchyIssue = (node: NonNullable<HierarchyIssueNode>): HierarchyIssue => ({
+  reference: `${node.repository?.nameWithOwner ?? "unknown"}#${node.number}`,
+  title: node.title ?? "",
+  state: (node.state ?? "unknown").toLowerCase(),
+  body: truncateBody(stripFooter(node.body ?? ""), HIERARCHY_BODY_LIMIT),
+});
+
+/**
+ * Loads the parent of a sub-issue and the parent's other sub-issues. Issues without a
+ * parent have no hierarchy; lookup failures are logged and treated the same way.
+ */
+const fetchIssueHierarchy = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+): Promise<IssueHierarchy | undefined> => {
+  try {
+    const response = await octokit.graphql<IssueHierarchyResponse>(
+      `query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          issue(number: $number) {
+            parent {
+              number
+              title
+              state
+              body
+              repository {
+                nameWithOwner
+              }
+              subIssues(first: 50) {
+                nodes {
+                  number
+                  title
+                  state
+                  body
+                  repository {
+                    nameWithOwner
+                  }
+                }
               }
             }
           }
@@ -46,20 +287,22 @@ const fetchOriginalDescription = async (
       }`,
       { owner, repo, number },
     );
-    const content = response.repository?.[itemType];
-    const nodes = content?.userContentEdits?.nodes ?? [];
-    for (const node of nodes.slice().reverse()) {
-      const body = node?.body;
-      if (typeof body === "string" && !body.includes(FOOTER)) {
-        return body;
-      }
+    const parent = response.repository?.issue?.parent;
+    if (!parent?.number) {
+      return undefined;
     }
+    const self = `${owner}/${repo}#${number}`.toLowerCase();
+    return {
+      parent: toHierarchyIssue(parent),
+      siblings: (parent.subIssues?.nodes ?? [])
+        .flatMap((node) => (node?.number ? [toHierarchyIssue(node)] : []))
+        .filter((sibling) => sibling.reference.toLowerCase() !== self),
+    };
   } catch (error) {
-    const message = error instanceof Error ? (error.message ?? error.stack) : String(error);
-    const label = itemType === "issue" ? "issue description" : "pull request description";
-    core.warning(`Failed to fetch original ${label}: ${message}`);
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to fetch issue hierarchy: ${message}`);
+    return undefined;
   }
-  return stripFooter(fallbackBody);
 };
 
 export const fetchIssueContext = async (
@@ -82,23 +325,150 @@ export const fetchIssueContext = async (
     per_page: 100,
   });
 
+  const hierarchy = await fetchIssueHierarchy(octokit, owner, repo, issueNumber);
+
   return {
     title: issueResponse.data.title ?? "",
     body: stripFooter(issueBody),
     author: issueResponse.data.user?.login ?? "unknown",
-    comments: comments.map((comment) => ({
-      author: comment.user?.login ?? "unknown",
-      body: comment.body ?? "",
-      createdAt: comment.created_at ?? "",
-    })),
+    metadata: buildMetadata(issueResponse.data),
+    comments: comments.map(toConversationComment),
+    hierarchy,
   };
 };
 
+/**
+ * Loads the issues a pull request closes, through closing keywords or the sidebar, with
+ * their full descriptions. Lookup failures are logged and treated as no linked issues.
+ */
+export const fetchClosingIssues = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+): Promise<LinkedIssue[]> => {
+  try {
+    const response = await octokit.graphql<ClosingIssuesResponse>(
+      `query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            closingIssuesReferences(first: 10) {
+              nodes {
+                number
+                title
+                body
+                repository {
+                  nameWithOwner
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { owner, repo, number: pullNumber },
+    );
+    return (response.repository?.pullRequest?.closingIssuesReferences?.nodes ?? []).flatMap(
+      (node) =>
+        node?.number
+          ? [
+              {
+                reference: `${node.repository?.nameWithOwner ?? `${owner}/${repo}`}#${node.number}`,
+                title: node.title ?? "",
+                body: stripFooter(node.body ?? ""),
+              },
+            ]
+          : [],
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to fetch linked issues: ${message}`);
+    return [];
+  }
+};
+
+// Reviews without a body or verdict only exist to group inline comments.
+const isMeaningfulReview = (review: PullRequestReview): boolean =>
+  Boolean(review.body.trim()) || (review.state !== "COMMENTED" && review.state !== "PENDING");
+
+const fetchReviewThreads = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+): Promise<ReviewThread[]> => {
+  const threads: ReviewThread[] = [];
+  let cursor: string | null = null;
+  try {
+    do {
+      const response: ReviewThreadsResponse = await octokit.graphql<ReviewThreadsResponse>(
+        `query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              reviewThreads(first: 100, after: $cursor) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  path
+                  line
+                  originalLine
+                  isResolved
+                  isOutdated
+                  comments(first: 100) {
+                    nodes {
+                      author {
+                        login
+                      }
+                      body
+                      createdAt
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }`,
+        { owner, repo, number, cursor },
+      );
+      const connection = response.repository?.pullRequest?.reviewThreads;
+      for (const node of connection?.nodes ?? []) {
+        if (!node?.path) {
+          continue;
+        }
+        threads.push({
+          path: node.path,
+          line: node.line ?? node.originalLine ?? undefined,
+          isResolved: node.isResolved ?? false,
+          isOutdated: node.isOutdated ?? false,
+          comments: (node.comments?.nodes ?? []).flatMap((comment) =>
+            comment
+              ? [
+                  {
+                    author: comment.author?.login ?? "unknown",
+                    body: comment.body ?? "",
+                    createdAt: comment.createdAt ?? "",
+                  },
+                ]
+              : [],
+          ),
+        });
+      }
+      cursor = connection?.pageInfo?.hasNextPage ? (connection.pageInfo.endCursor ?? null) : null;
+    } while (cursor);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Failed to fetch review threads: ${message}`);
+  }
+  return threads;
+};
+
 export const fetchPullRequestContext = async (
   octokit: Octokit,
   owner: string,
   repo: string,
   pullNumber: number,
+  diffBudget = 0,
 ): Promise<SpecContext> => {
   const pullResponse = await octokit.rest.pulls.get({
     owner,
@@ -121,23 +491,262 @@ export const fetchPullRequestContext = async (
     per_page: 100,
   });
 
+  const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100,
+  });
+
+  const reviewThreads = await fetchReviewThreads(octokit, owner, repo, pullNumber);
+
   return {
     title: pullResponse.data.title ?? "",
     body: stripFooter(pullBody),
     author: pullResponse.data.user?.login ?? "unknown",
-    comments: comments.map((comment) => ({
-      author: comment.user?.login ?? "unknown",
-      body: comment.body ?? "",
-      createdAt: comment.created_at ?? "",
-    })),
-    changedFiles: files.map((file) => ({
-      filename: file.filename,
-      status: file.status,
-      additions: file.additions,
-      deletions: file.deletions,
-      changes: file.changes,
-    })),
+    metadata: buildMetadata(pullResponse.data),
+    comments: comments.map(toConversationComment),
+    changedFiles: applyPatchBudget(
+      files.map((file) => ({
+        filename: file.filename,
+        status: file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        changes: file.changes,
+        patch: diffBudget > 0 ? file.patch : undefined,
+      })),
+      diffBudget,
+    ),
+    reviews: reviews
+      .map((review) => ({
+        author: review.user?.login ?? "unknown",
+        state: review.state,
+        body: review.body ?? "",
+        submittedAt: review.submitted_at ?? "",
+      }))
+      .filter(isMeaningfulReview),
+    reviewThreads,
+  };
+};
+
+export type RelatedItemsOptions = {
+  /** Maximum number of related items to load; 0 disables the lookup. */
+  limit: number;
+  /** How many hops of references to follow; 1 only loads items this one references. */
+  depth: number;
+  serverUrl?: string;
+};
+
+type ReferenceSource = { text: string; owner: string; repo: string };
+
+/**
+ * Resolves issues and pull requests referenced from the spec and its comments,
+ * following references found in their bodies up to `depth` hops. Items that cannot be
+ * loaded (missing, private or in another installation) are skipped with a warning, and
+ * so are items in other private repositories when this repository is public, which keeps
+ * them out of a public spec even when the token can read them.
+ */
+export const fetchRelatedItems = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+  context: SpecContext,
+  { limit, depth, serverUrl }: RelatedItemsOptions,
+): Promise<RelatedItem[]> => {
+  const items: RelatedItem[] = [];
+  const seen = new Set([formatReference({ owner, repo, number }).toLowerCase()]);
+  const visibility = new Map<string, Promise<boolean>>();
+  const isPrivateRepository = (itemOwner: string, itemRepo: string): Promise<boolean> => {
+    const key = `${itemOwner}/${itemRepo}`.toLowerCase();
+    let isPrivate = visibility.get(key);
+    if (!isPrivate) {
+      isPrivate = octokit.rest.repos
+        .get({ owner: itemOwner, repo: itemRepo })
+        .then(({ data }) => data.private);
+      visibility.set(key, isPrivate);
+    }
+    return isPrivate;
   };
+  let sources: ReferenceSource[] = [context.body, ...context.comments.map((c) => c.body)].map(
+    (text) => ({ text, owner, repo }),
+  );
+
+  for (let level = 1; level <= depth && items.length < limit && sources.length; level += 1) {
+    const references: ItemReference[] = sources.flatMap((source) =>
+      extractReferences(source.text, source.owner, source.repo, serverUrl),
+    );
+    const nextSources: ReferenceSource[] = [];
+    for (const reference of references) {
+      const key = formatReference(reference).toLowerCase();
+      if (items.length >= limit || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      try {
+        const isOtherRepository =
+          reference.owner.toLowerCase() !== owner.toLowerCase() ||
+          reference.repo.toLowerCase() !== repo.toLowerCase();
+        if (
+          isOtherRepository &&
+          (await isPrivateRepository(reference.owner, reference.repo)) &&
+          !(await isPrivateRepository(owner, repo))
+        ) {
+          core.warning(
+            `Skipping related item ${formatReference(reference)}: its repository is private and ${owner}/${repo} is public.`,
+          );
+          continue;
+        }
+        const { data } = await octokit.rest.issues.get({
+          owner: reference.owner,
+          repo: reference.repo,
+          issue_number: reference.number,
+        });
+        const body = stripFooter(data.body ?? "");
+        items.push({
+          reference: formatReference(reference),
+          kind: data.pull_request ? "pull_request" : "issue",
+          title: data.title ?? "",
+          state: data.state ?? "unknown",
+          labels: getLabelNames(data.labels),
+          body: truncateBody(body, RELATED_ITEM_BODY_LIMIT),
+        });
+        nextSources.push({ text: body, owner: reference.owner, repo: reference.repo });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Failed to fetch related item ${formatReference(reference)}: ${message}`);
+      }
+    }
+    sources = nextSources;
+  }
+  return items;
+};
+
+export type DiffSource = {
+  /** The current description without the footer. */
+  current: string;
+  /** The revision to compare with, footer stripped; unset when there is none. */
+  base?: SpecRevision;
+  /** Why the requested base could not be used. */
+  problem?: string;
+};
+
+/**
+ * Loads the current description and the revision `/spec-gardener diff` compares it with:
+ * the original description (the oldest revision not written by Spec Gardener) or the
+ * previous Spec Gardener revision, falling back to the original when there is none.
+ */
+export const fetchDiffSource = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+  itemType: "issue" | "pullRequest",
+  requestedBase = "",
+): Promise<DiffSource> => {
+  const { data } = await octokit.rest.issues.get({ owner, repo, issue_number: number });
+  const current = stripFooter(data.body ?? "");
+  const revisions = await fetchEditHistory(octokit, owner, repo, number, itemType);
+  const withSource = (revision?: SpecRevision, problem?: string): DiffSource => ({
+    current,
+    base: revision && { ...revision, body: stripFooter(revision.body) },
+    problem,
+  });
+
+  const { revision: original } = selectRevision(revisions);
+  const base: string = requestedBase.trim().toLowerCase() || "original";
+  if (base === "original") {
+    return withSource(original);
+  }
+  if (base !== "previous") {
+    return withSource(
+      original,
+      `Unknown diff base "${requestedBase.trim()}"; comparing with the original description.`,
+    );
+  }
+  const previous = revisions
+    .slice(0, -1)
+    .reverse()
+    .find((revision) => revision.body.includes(FOOTER));
+  return previous
+    ? withSource(previous)
+    : withSource(
+        original,
+        "No earlier Spec Gardener revision exists; comparing with the original description.",
+      );
+};
+
+type IssueEventData = {
+  event?: string;
+  created_at?: string;
+  rename?: { from?: string; to?: string } | null;
+};
+
+export type UndoTarget = {
+  /** The revision to restore; unset when there is none. */
+  revision?: SpecRevision;
+  /** The description to write back: Spec Gardener revisions get a fresh footer, others none. */
+  body?: string;
+  /** The title the item had while `revision` was current; unset when it is unchanged. */
+  title?: string;
+  /** Why nothing could be restored. */
+  problem?: string;
+};
+
+/**
+ * Finds what `/spec-gardener undo` restores: the revision `steps` edits before the
+ * current description. The edit history does not cover titles, so the title comes from
+ * the first rename after that revision was made.
+ */
+export const fetchUndoTarget = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  number: number,
+  itemType: "issue" | "pullRequest",
+  requestedSteps = "",
+): Promise<UndoTarget> => {
+  const raw = requestedSteps.trim();
+  if (raw && !/^[1-9]\d*$/.test(raw)) {
+    return { problem: `Unknown undo count "${raw}"; expected a number of revisions.` };
+  }
+  const steps = raw ? Number(raw) : 1;
+  const revisions = await fetchEditHistory(octokit, owner, repo, number, itemType);
+  const earlier = Math.max(0, revisions.length - 1);
+  const revision = revisions[revisions.length - 1 - steps];
+  if (!revision) {
+    return {
+      problem: earlier
+        ? `Cannot undo ${steps} revisions; the description has only ${earlier} earlier revision(s).`
+        : "The description has no earlier revision to restore.",
+    };
+  }
+  const body = hasFooter(revision.body) ? buildSpecBody(stripFooter(revision.body)) : revision.body;
+  const editedAt = Date.parse(revision.editedAt ?? "");
+  if (Number.isNaN(editedAt)) {
+    return { revision, body };
+  }
+  const events: IssueEventData[] = await octokit.paginate(octokit.rest.issues.listEvents, {
+    owner,
+    repo,
+    issue_number: number,
+    per_page: 100,
+  });
+  const renames = events
+    .filter((event) => event.event === "renamed" && event.rename)
+    .sort((a, b) => Date.parse(a.created_at ?? "") - Date.parse(b.created_at ?? ""));
+  const later = renames.filter((event) => Date.parse(event.created_at ?? "") > editedAt);
+  const title = later[0]?.rename?.from;
+  const currentTitle = renames[renames.length - 1]?.rename?.to;
+  return { revision, body, title: title && title !== currentTitle ? title : undefined };
+};
+
+export type ResetOutcome = {
+  context: SpecContext;
+  /** The revision the description was reset to; unset when it kept the current body. */
+  revision?: SpecRevision;
+  /** Why the requested revision could not be used. */
+  problem?: string;
 };
 
 export const applyResetContext = async (
@@ -148,31 +757,48 @@ export const applyResetContext = async (
   number: number,
   itemType: "issue" | "pullRequest",
   resetCreatedAt?: string,
-): Promise<SpecContext> => {
+  selector?: string,
+): Promise<ResetOutcome | undefined> => {
   if (!resetCreatedAt) {
-    return context;
+    return undefined;
   }
   const resetTime = Date.parse(resetCreatedAt);
   if (Number.isNaN(resetTime)) {
-    return context;
+    return undefined;
   }
-  const resetBody = await fetchOriginalDescription(
-    octokit,
-    owner,
-    repo,
-    number,
-    itemType,
-    context.body,
-  );
+  let revisions: SpecRevision[] = [];
+  try {
+    revisions = await fetchEditHistory(octokit, owner, repo, number, itemType);
+  } catch (error) {
+    const message = error instanceof Error ? (error.message ?? error.stack) : String(error);
+    const label = itemType === "issue" ? "issue description" : "pull request description";
+    core.warning(`Failed to fetch the edit history of the ${label}: ${message}`);
+  }
+  const { revision, problem } = selectRevision(revisions, selector);
+  if (problem) {
+    core.warning(problem);
+  }
+  const isAfterReset = (createdAt: string): boolean => {
+    const time = Date.parse(createdAt);
+    if (Number.isNaN(time)) {
+      return false;
+    }
+    return time >= resetTime;
+  };
   return {
-    ...context,
-    body: resetBody,
-    comments: context.comments.filter((comment) => {
-      const commentTime = Date.parse(comment.createdAt);
-      if (Number.isNaN(commentTime)) {
-        return false;
-      }
-      return commentTime >= resetTime;
-    }),
+    context: {
+      ...context,
+      body: revision ? stripFooter(revision.body) : context.body,
+      comments: context.comments.filter((comment) => isAfterReset(comment.createdAt)),
+      reviews: context.reviews?.filter((review) => isAfterReset(review.submittedAt)),
+      reviewThreads: context.reviewThreads
+        ?.map((thread) => ({
+          ...thread,
+          comments: thread.comments.filter((comment) => isAfterReset(comment.createdAt)),
+        }))
+        .filter((thread) => thread.comments.length),
+    },
+    revision,
+    problem,
   };
 };
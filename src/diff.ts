@@ -0,0 +1,135 @@
+type Edit = { type: "equal" | "delete" | "insert"; text: string };
+
+/** Largest LCS table computed; bigger changes are shown as a full replacement. */
+const MAX_LCS_CELLS = 4_000_000;
+
+const EDIT_PREFIX: Record<Edit["type"], string> = { equal: " ", delete: "-", insert: "+" };
+
+const toLines = (text: string): string[] => {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  return normalized ? normalized.split("\n") : [];
+};
+
+// Longest common subsequence over lines, preferring deletions before insertions.
+const diffByLcs = (before: string[], after: string[]): Edit[] => {
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        before[i] === after[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      edits.push({ type: "equal", text: before[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      edits.push({ type: "delete", text: before[i] });
+      i += 1;
+    } else {
+      edits.push({ type: "insert", text: after[j] });
+      j += 1;
+    }
+  }
+  for (; i < before.length; i += 1) {
+    edits.push({ type: "delete", text: before[i] });
+  }
+  for (; j < after.length; j += 1) {
+    edits.push({ type: "insert", text: after[j] });
+  }
+  return edits;
+};
+
+const diffLines = (before: string[], after: string[]): Edit[] => {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start += 1;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore -= 1;
+    endAfter -= 1;
+  }
+  const removed = before.slice(start, endBefore);
+  const added = after.slice(start, endAfter);
+  const middle =
+    (removed.length + 1) * (added.length + 1) > MAX_LCS_CELLS
+      ? [
+          ...removed.map((text): Edit => ({ type: "delete", text })),
+          ...added.map((text): Edit => ({ type: "insert", text })),
+        ]
+      : diffByLcs(removed, added);
+  const equal = (text: string): Edit => ({ type: "equal", text });
+  return [...before.slice(0, start).map(equal), ...middle, ...before.slice(endBefore).map(equal)];
+};
+
+const formatRange = (start: number, count: number): string =>
+  count === 1 ? `${start}` : `${count ? start : start - 1},${count}`;
+
+/**
+ * Renders a line-based unified diff of two texts with `context` unchanged lines around
+ * each change. Returns an empty string when the texts have the same lines.
+ */
+export const buildUnifiedDiff = (before: string, after: string, context = 3): string => {
+  const edits = diffLines(toLines(before), toLines(after));
+  // 1-based line numbers of each edit in the old and new text.
+  const positions: Array<{ oldLine: number; newLine: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const edit of edits) {
+    positions.push({ oldLine, newLine });
+    if (edit.type !== "insert") {
+      oldLine += 1;
+    }
+    if (edit.type !== "delete") {
+      newLine += 1;
+    }
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < edits.length) {
+    if (edits[index].type === "equal") {
+      index += 1;
+      continue;
+    }
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < edits.length) {
+      if (edits[end].type !== "equal") {
+        end += 1;
+        continue;
+      }
+      let next = end;
+      while (next < edits.length && edits[next].type === "equal") {
+        next += 1;
+      }
+      // Changes separated by more than twice the context start a new hunk.
+      if (next === edits.length || next - end > context * 2) {
+        end = Math.min(end + context, edits.length);
+        break;
+      }
+      end = next;
+    }
+    const hunk = edits.slice(start, end);
+    const oldCount = hunk.filter((edit) => edit.type !== "insert").length;
+    const newCount = hunk.filter((edit) => edit.type !== "delete").length;
+    const { oldLine: oldStart, newLine: newStart } = positions[start];
+    hunks.push(
+      [
+        `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+        ...hunk.map((edit) => `${EDIT_PREFIX[edit.type]}${edit.text}`),
+      ].join("\n"),
+    );
+    index = end;
+  }
+  return hunks.join("\n");
+};
@@ -1,9 +1,91 @@
-import { COMMANDS_HINT, COMMANDS_LIST, FOOTER } from "./constants";
+import type {
+  AcceptanceCriterion,
+  LinkedIssue,
+  VerificationCheck,
+  VerificationStatus,
+} from "./adapters";
+import {
+  COMMANDS_HINT,
+  COMMANDS_LIST,
+  CRITERIA_END_MARKER,
+  CRITERIA_START_MARKER,
+  FOOTER,
+  MAX_DIFF_COMMENT_LENGTH,
+} from "./constants";
+import type { DiffSource, ResetOutcome, SpecRevision, UndoTarget } from "./context";
+import { buildUnifiedDiff } from "./diff";
 
 export const buildSpecBody = (spec: string): string => {
   return `${spec}\n\n---\n${FOOTER}`;
 };
 
+const formatCriterion = ({ given, when, expected }: AcceptanceCriterion): string =>
+  `**Given** ${given}, **when** ${when}, **then** ${expected}`;
+
+/**
+ * Adds the acceptance criteria and test plan to `body` as task lists between the criteria
+ * markers, replacing the section from an earlier run. Items that were ticked in the
+ * earlier section and are unchanged stay ticked. The end marker is paired with the
+ * nearest start marker before it; markers left without a partner are removed so a later
+ * run cannot pair them with the new section and drop the text in between.
+ */
+export const applyCriteriaSection = (
+  body: string,
+  { criteria, tests }: { criteria: AcceptanceCriterion[]; tests: string[] },
+): string => {
+  const end = body.indexOf(CRITERIA_END_MARKER);
+  const start = end === -1 ? -1 : body.lastIndexOf(CRITERIA_START_MARKER, end);
+  const previous = start === -1 ? "" : body.slice(start, end);
+  const ticked = new Set(
+    [...previous.matchAll(/^- \[[xX]\] (.+)$/gm)].map((match) => match[1].trim()),
+  );
+  const toTask = (text: string): string => `- [${ticked.has(text) ? "x" : " "}] ${text}`;
+  const section = [
+    CRITERIA_START_MARKER,
+    "## Acceptance Criteria",
+    "",
+    ...criteria.map((criterion) => toTask(formatCriterion(criterion))),
+    "",
+    "## Test Plan",
+    "",
+    ...tests.map(toTask),
+    CRITERIA_END_MARKER,
+  ].join("\n");
+  if (start !== -1) {
+    return `${body.slice(0, start)}${section}${body.slice(end + CRITERIA_END_MARKER.length)}`;
+  }
+  const unmarked = body.replaceAll(CRITERIA_START_MARKER, "").replaceAll(CRITERIA_END_MARKER, "");
+  return unmarked.trim() ? `${unmarked.trimEnd()}\n\n${section}` : section;
+};
+
+const VERIFICATION_GROUPS: Array<{ status: VerificationStatus; title: string; marker: string }> = [
+  { status: "missing", title: "Missing", marker: "- [ ]" },
+  { status: "satisfied", title: "Satisfied", marker: "- [x]" },
+  { status: "out_of_scope", title: "Out of scope", marker: "-" },
+];
+
+/**
+ * Renders the verify result as a checklist grouped by status, missing requirements first.
+ * Satisfied requirements are ticked; out-of-scope changes are plain bullets.
+ */
+export const buildVerificationReport = (
+  checks: VerificationCheck[],
+  linkedIssues: LinkedIssue[],
+): string => {
+  const sections = [
+    `Checked against ${linkedIssues.map((issue) => `${issue.reference} (${issue.title})`).join(", ")}.`,
+  ];
+  for (const { status, title, marker } of VERIFICATION_GROUPS) {
+    const items = checks
+      .filter((check) => check.status === status)
+      .map(({ requirement, note }) => `${marker} ${requirement}${note ? ` - ${note}` : ""}`);
+    if (items.length) {
+      sections.push(`### ${title}\n\n${items.join("\n")}`);
+    }
+  }
+  return sections.join("\n\n");
+};
+
 export const buildComment = (
   content: string,
   authorLogin: string,
@@ -13,6 +95,94 @@ export const buildComment = (
   return `${prefix}${content}\n\n---\n${COMMANDS_HINT}\n${FOOTER}`;
 };
 
+export const buildAgentAttribution = (agentName: string): string => {
+  return `_Answered by \`${agentName}\`._`;
+};
+
+const describeRevision = (revision: SpecRevision): string => {
+  const edited = revision.editedAt ? `, edited ${revision.editedAt}` : "";
+  const editor = revision.editor ? ` by ${revision.editor}` : "";
+  return `revision ${revision.number} of ${revision.total}${edited}${editor}`;
+};
+
+export const buildResetNote = ({ revision, problem }: ResetOutcome): string => {
+  const prefix = problem ? `${problem} ` : "";
+  if (!revision) {
+    return `_${prefix}Reset from the current description; no earlier revision was found._`;
+  }
+  return `_${prefix}Reset to ${describeRevision(revision)}._`;
+};
+
+export const buildUndoContent = ({ revision, title, problem }: UndoTarget): string => {
+  if (!revision) {
+    return `${problem ?? "Nothing to undo."} The description was not changed.`;
+  }
+  const restoredTitle = title ? ` The title was restored to "${title}".` : "";
+  return `Restored ${describeRevision(revision)}.${restoredTitle}`;
+};
+
+/** Wraps text in a fence longer than any backtick run it contains. */
+const fenceCode = (content: string, language: string): string => {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${content}\n${fence}`;
+};
+
+/**
+ * Renders the changes between two descriptions as a fenced Markdown diff, or an empty
+ * string when they have the same lines. Long diffs are cut to fit in a comment.
+ */
+export const buildDiffBlock = (before: string, after: string): string => {
+  const diff = buildUnifiedDiff(before, after);
+  if (!diff) {
+    return "";
+  }
+  const content =
+    diff.length > MAX_DIFF_COMMENT_LENGTH
+      ? `${diff.slice(0, diff.lastIndexOf("\n", MAX_DIFF_COMMENT_LENGTH))}\n[truncated]`
+      : diff;
+  return fenceCode(content, "diff");
+};
+
+export const buildDiffCommentContent = ({ current, base, problem }: DiffSource): string => {
+  const prefix = problem ? `${problem}\n\n` : "";
+  if (!base) {
+    return `${prefix}The description has no earlier revision to compare with.`;
+  }
+  const block = buildDiffBlock(base.body, current);
+  if (!block) {
+    return `${prefix}The current description matches ${describeRevision(base)}.`;
+  }
+  return `${prefix}Changes from ${describeRevision(base)} to the current description:\n\n${block}`;
+};
+
+/** Collapsible diff appended to completion comments; empty when nothing changed. */
+export const buildDiffDetails = (before: string, after: string): string => {
+  const block = buildDiffBlock(before, after);
+  return block
+    ? `<details>\n<summary>Changes to the description</summary>\n\n${block}\n\n</details>`
+    : "";
+};
+
+const AGENT_ATTRIBUTION_PATTERN = /\n*_Answered by `[^`]+`\._$/;
+
+/**
+ * Reduces a comment produced by `buildComment` (or `buildErrorComment`) to its content:
+ * drops the footer, the commands hint, the agent attribution and the leading mention.
+ */
+export const stripCommentBoilerplate = (body: string): string => {
+  const footerIndex = body.lastIndexOf(FOOTER);
+  let content = footerIndex === -1 ? body.trimEnd() : body.slice(0, footerIndex).trimEnd();
+  if (content.endsWith(COMMANDS_HINT)) {
+    content = content.slice(0, -COMMANDS_HINT.length).trimEnd();
+  }
+  return content
+    .replace(/\n---$/, "")
+    .trimEnd()
+    .replace(AGENT_ATTRIBUTION_PATTERN, "")
+    .replace(/^@[\w-]+ /, "");
+};
+
 export const buildHelpComment = (): string => {
   return `${COMMANDS_LIST}\n\n---\n${FOOTER}`;
 };
@@ -21,9 +191,11 @@ export const buildErrorComment = (
   runUrl: string,
   authorLogin?: string,
   mentionAuthor = false,
+  detail?: string,
 ): string => {
   const prefix = mentionAuthor && authorLogin ? `@${authorLogin} ` : "";
-  return `${prefix}Spec Gardener encountered an error while processing this issue.\n\nPlease check the workflow run for details:\n${runUrl}\n\n---\n${COMMANDS_HINT}\n${FOOTER}`;
+  const detailLine = detail ? `${detail}\n\n` : "";
+  return `${prefix}Spec Gardener encountered an error while processing this issue.\n\n${detailLine}Please check the workflow run for details:\n${runUrl}\n\n---\n${COMMANDS_HINT}\n${FOOTER}`;
 };
 
 export const normalizeTitle = (title: string): string => {
@@ -0,0 +1,62 @@
+import core from "@actions/core";
+import { join, resolve } from "node:path";
+import type { Guideline } from "./adapters";
+
+export const DEFAULT_GUIDELINES_DIR = ".github/spec-gardener";
+
+const GENERAL_GUIDELINES_FILE = "guidelines.md";
+const LABEL_GUIDELINES_DIR = "guidelines";
+
+/** Maps a label to its guidelines file name, e.g. "Good First Issue" to "good-first-issue.md". */
+export const getLabelGuidelinesFile = (label: string): string => {
+  const slug = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._]+/g, "-")
+    .replace(/^[-.]+|-+$/g, "");
+  return slug ? `${slug}.md` : "";
+};
+
+/**
+ * Reads `<dir>/guidelines.md` and `<dir>/guidelines/<label>.md` for each label, in that
+ * order. Missing and empty files are skipped. Content beyond `limit` characters in total
+ * is truncated, and files that no longer fit are skipped with a warning.
+ */
+export const loadGuidelines = async (
+  workspace: string,
+  dir: string,
+  labels: string[],
+  limit: number,
+): Promise<Guideline[]> => {
+  const labelFiles = labels
+    .map(getLabelGuidelinesFile)
+    .filter(Boolean)
+    .map((file) => join(dir, LABEL_GUIDELINES_DIR, file));
+  const paths = [...new Set([join(dir, GENERAL_GUIDELINES_FILE), ...labelFiles])];
+
+  const guidelines: Guideline[] = [];
+  let remaining = limit;
+  for (const path of paths) {
+    const file = Bun.file(resolve(workspace, path));
+    if (!(await file.exists())) {
+      continue;
+    }
+    const text = (await file.text()).trim();
+    if (!text) {
+      continue;
+    }
+    if (remaining <= 0) {
+      core.warning(`Skipping guidelines ${path}: the ${limit}-character limit is used up.`);
+      continue;
+    }
+    if (text.length > remaining) {
+      core.warning(`Truncated guidelines ${path} to fit the ${limit}-character limit.`);
+      guidelines.push({ path, content: `${text.slice(0, remaining).trimEnd()}\n[truncated]` });
+      remaining = 0;
+      continue;
+    }
+    guidelines.push({ path, content: text });
+    remaining -= text.length;
+  }
+  return guidelines;
+};
@@ -0,0 +1,61 @@
+import core from "@actions/core";
+import type { HttpAgentConfig } from "./adapters";
+
+const buildHeaders = (agent: string, config: HttpAgentConfig): Record<string, string> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKeyEnv) {
+    const apiKey = process.env[config.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(
+        `Environment variable ${config.apiKeyEnv} for agent "${agent}" is not set or empty.`,
+      );
+    }
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+  return headers;
+};
+
+/**
+ * Sends the prompt as a single user message to an OpenAI-compatible chat completions
+ * endpoint and returns the raw response body. The body is parsed by the
+ * "openai-chat-json" output format so usage is reported like CLI output.
+ */
+export const requestChatCompletion = async (
+  agent: string,
+  config: HttpAgentConfig,
+  prompt: string,
+  timeoutMs: number,
+): Promise<string> => {
+  const url = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const controller = new AbortController();
+  const timeoutId = timeoutMs > 0 ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+
+  core.info(`Sending prompt to ${url} (model: ${config.model})`);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: buildHeaders(agent, config),
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: config.temperature,
+        response_format: config.jsonMode ? { type: "json_object" } : undefined,
+      }),
+      signal: controller.signal,
+    });
+    const body = await response.text();
+    if (!response.ok) {
+      throw new Error(`Provider returned HTTP ${response.status}: ${body}`);
+    }
+    return body;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Provider timed out after ${timeoutMs}ms.`);
+    }
+    throw error;
+  } finally {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  }
+};
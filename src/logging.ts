@@ -1,5 +1,5 @@
 import { inspect } from "util";
-import type { CliResult } from "./adapters";
+import type { AgentUsage, CliResult, ToolUse } from "./adapters";
 
 const LOG_PREFIX = "[Spec Gardener]";
 
@@ -11,3 +11,24 @@ export const formatParsedResult = (result: CliResult): string => {
   const rendered = inspect(result, { depth: null, compact: true });
   return `${LOG_PREFIX} Parsed result: ${rendered}`;
 };
+
+export const formatToolTrace = (toolUses: ToolUse[]): string => {
+  if (!toolUses.length) {
+    return `${LOG_PREFIX} Tool use: (none)`;
+  }
+  const lines = toolUses.map((tool, index) => {
+    const detail = tool.detail ? ` ${tool.detail}` : "";
+    return `${index + 1}. ${tool.name}${detail}`;
+  });
+  return formatLogBlock("Tool use", lines.join("\n"));
+};
+
+export const formatUsage = (usage: AgentUsage): string => {
+  const parts = [
+    usage.inputTokens !== undefined ? `input=${usage.inputTokens}` : "",
+    usage.cachedInputTokens !== undefined ? `cached=${usage.cachedInputTokens}` : "",
+    usage.outputTokens !== undefined ? `output=${usage.outputTokens}` : "",
+    usage.costUsd !== undefined ? `cost=$${usage.costUsd.toFixed(4)}` : "",
+  ].filter(Boolean);
+  return `${LOG_PREFIX} Usage: ${parts.length ? parts.join(" ") : "(unknown)"}`;
+};
@@ -1,20 +1,87 @@
 import core from "@actions/core";
 import { Octokit } from "octokit";
-import { getAdapter, type CliResult, type SpecContext } from "./adapters";
-import { shouldProcess, type EventPayload } from "./commands";
-import { applyResetContext, fetchIssueContext, fetchPullRequestContext } from "./context";
-import { DEFAULT_AGENT_TIMEOUT_MS, THUMBS_UP_REACTION } from "./constants";
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
 import {
+  getAdapter,
+  isExactVersion,
+  PERMISSION_PROFILES,
+  type AgentCommand,
+  type CliResult,
+  type PermissionProfile,
+  type ProviderAdapter,
+  type SpecContext,
+} from "./adapters";
+import { isTrustedEvent, shouldProcess, type CommentCommand, type EventPayload } from "./commands";
+import { DEFAULT_CONFIG_PATH, loadConfig } from "./config";
+import {
+  CONSENSUS_STRATEGIES,
+  describeVote,
+  MERGE_JUDGE,
+  mergeVotes,
+  type AgentVote,
+  type ConsensusStrategy,
+} from "./consensus";
+import {
+  applyResetContext,
+  fetchClosingIssues,
+  fetchDiffSource,
+  fetchIssueContext,
+  fetchPullRequestContext,
+  fetchRelatedItems,
+  fetchUndoTarget,
+} from "./context";
+import {
+  DEFAULT_AGENT_TIMEOUT_MS,
+  DEFAULT_CONTEXT_BUDGET,
+  DEFAULT_DIFF_BUDGET,
+  DEFAULT_GUIDELINES_LIMIT,
+  DEFAULT_MAX_PARSE_ATTEMPTS,
+  DEFAULT_RELATED_ITEMS_DEPTH,
+  DEFAULT_RELATED_ITEMS_LIMIT,
+  PROMPT_FILE_PLACEHOLDER,
+  THUMBS_UP_REACTION,
+} from "./constants";
+import {
+  applyCriteriaSection,
+  buildAgentAttribution,
   buildComment,
+  buildDiffCommentContent,
+  buildDiffDetails,
   buildErrorComment,
   buildHelpComment,
+  buildResetNote,
   buildSpecBody,
+  buildUndoContent,
+  buildVerificationReport,
   normalizeTitle,
 } from "./format";
-import { formatLogBlock, formatParsedResult } from "./logging";
+import { DEFAULT_GUIDELINES_DIR, loadGuidelines } from "./guidelines";
+import { formatLogBlock, formatParsedResult, formatToolTrace, formatUsage } from "./logging";
+import {
+  buildJudgePrompt,
+  buildRepairPrompt,
+  type PromptOptions,
+  type PromptTask,
+} from "./prompts";
+import {
+  createRecordingAdapter,
+  createReplayAdapter,
+  DEFAULT_FIXTURES_DIR,
+  REPLAY_AGENT,
+} from "./replay";
 
 type MentionOn = "question" | "complete" | "error";
 
+// Commands that ask the agent for something other than refining the spec.
+const COMMAND_TASKS: Partial<Record<CommentCommand, PromptTask>> = {
+  split: "split",
+  ask: "ask",
+  criteria: "criteria",
+  verify: "verify",
+};
+
 const ALLOWED_MENTION_ON: MentionOn[] = ["question", "complete", "error"];
 const ALLOWED_MENTION_ON_SET = new Set<MentionOn>(ALLOWED_MENTION_ON);
 
@@ -47,6 +114,7 @@ const postErrorComment = async (
   token: string,
   authorLogin: string | undefined,
   mentionAuthor: boolean,
+  detail?: string,
 ): Promise<void> => {
   try {
     const serverUrl = process.env.GITHUB_SERVER_URL ?? "https://github.com";
@@ -59,7 +127,7 @@ const postErrorComment = async (
       owner,
       repo,
       issue_number: issueNumber,
-      body: buildErrorComment(runUrl, authorLogin, mentionAuthor),
+      body: buildErrorComment(runUrl, authorLogin, mentionAuthor, detail),
     });
   } catch (commentError) {
     const fallback =
@@ -70,34 +138,122 @@ const postErrorComment = async (
   }
 };
 
+const parseAgentList = (raw: string): string[] => {
+  const agents: string[] = [];
+  for (const entry of raw.split(",")) {
+    const name = entry.trim().toLowerCase();
+    if (name && !agents.includes(name)) {
+      agents.push(name);
+    }
+  }
+  if (!agents.length) {
+    throw new Error("The agent input must name at least one agent.");
+  }
+  return agents;
+};
+
+const parseStrategy = (raw: string): ConsensusStrategy => {
+  const normalized = raw.trim().toLowerCase();
+  if (!normalized) {
+    return "fallback";
+  }
+  if (CONSENSUS_STRATEGIES.includes(normalized as ConsensusStrategy)) {
+    return normalized as ConsensusStrategy;
+  }
+  core.warning(
+    `Invalid agent_strategy value "${raw}"; supported values: ${CONSENSUS_STRATEGIES.join(", ")}. Falling back to "fallback".`,
+  );
+  return "fallback";
+};
+
+/**
+ * An explicit `permission_profile` applies to every run. Otherwise collaborators get
+ * full tool access and everyone else gets read-only access.
+ */
+const resolvePermissionProfile = (
+  raw: string,
+  eventName: string,
+  event: EventPayload,
+): PermissionProfile => {
+  const normalized = raw.trim().toLowerCase();
+  if (PERMISSION_PROFILES.includes(normalized as PermissionProfile)) {
+    return normalized as PermissionProfile;
+  }
+  if (normalized) {
+    core.warning(
+      `Invalid permission_profile value "${raw}"; supported values: ${PERMISSION_PROFILES.join(", ")}. Choosing a profile from the event author.`,
+    );
+  }
+  return isTrustedEvent(eventName, event) ? "full" : "read-only";
+};
+
+/**
+ * Parses `agent_version`: either `name=version` pairs separated by commas, or a bare
+ * version that applies when a single agent is configured.
+ */
+const parseAgentVersions = (raw: string, agents: string[]): Record<string, string> => {
+  const versions: Record<string, string> = {};
+  for (const entry of raw.split(",")) {
+    const trimmedEntry = entry.trim();
+    if (!trimmedEntry) {
+      continue;
+    }
+    const separatorIndex = trimmedEntry.indexOf("=");
+    if (separatorIndex === -1) {
+      if (agents.length === 1) {
+        versions[agents[0]] = trimmedEntry;
+      } else {
+        core.warning(
+          `Ignoring agent_version value "${trimmedEntry}"; use name=version when several agents are configured.`,
+        );
+      }
+      continue;
+    }
+    const name = trimmedEntry.slice(0, separatorIndex).trim().toLowerCase();
+    const version = trimmedEntry.slice(separatorIndex + 1).trim();
+    if (name && version) {
+      versions[name] = version;
+    } else {
+      core.warning(`Invalid agent_version value "${trimmedEntry}".`);
+    }
+  }
+  return versions;
+};
+
 const getRequiredInput = (name: string): string => {
   return core.getInput(name, { required: true });
 };
 
-const getTimeoutInput = (name: string, fallbackMs: number): number => {
+const getIntegerInput = (name: string, fallback: number, min: number, unit = ""): number => {
   const raw = core.getInput(name);
   if (!raw.trim()) {
-    return fallbackMs;
+    return fallback;
   }
   const parsed = Number.parseInt(raw, 10);
-  if (Number.isNaN(parsed) || parsed <= 0) {
-    core.warning(`Invalid ${name} value "${raw}", falling back to ${fallbackMs}ms.`);
-    return fallbackMs;
+  if (Number.isNaN(parsed) || parsed < min) {
+    core.warning(`Invalid ${name} value "${raw}", falling back to ${fallback}${unit}.`);
+    return fallback;
   }
   return parsed;
 };
 
-const runProvider = async (
-  cmd: string,
-  args: string[],
-  prompt: string,
+const getPositiveIntegerInput = (name: string, fallback: number, unit = ""): number =>
+  getIntegerInput(name, fallback, 1, unit);
+
+// Raised when the agent keeps returning output that does not match the result schema.
+class AgentOutputError extends Error {}
+
+const spawnProvider = async (
+  command: string[],
+  stdin: Blob | undefined,
+  cwd: string,
+  env: Record<string, string> | undefined,
   timeoutMs: number,
 ): Promise<string> => {
-  const cwd = process.env.GITHUB_WORKSPACE ?? process.cwd();
-  core.info(`Running: ${cmd} ${args.join(" ")} (cwd: ${cwd})`);
-
-  const proc = Bun.spawn([cmd, ...args, prompt], {
+  const proc = Bun.spawn(command, {
     cwd,
+    env: env ? { ...process.env, ...env } : undefined,
+    stdin: stdin ?? "ignore",
     stdout: "pipe",
     stderr: "pipe",
   });
@@ -149,6 +305,335 @@ const runProvider = async (
   }
 };
 
+const VERSION_PROBE_TIMEOUT_MS = 60000;
+
+/**
+ * Logs the package or command each agent runs. Dist-tags and ranges such as "latest"
+ * are probed with --version so the job log shows the version that actually executed.
+ */
+const logResolvedAgent = async (
+  adapter: ProviderAdapter,
+  permissionProfile: PermissionProfile,
+): Promise<void> => {
+  if (!adapter.buildCommand) {
+    core.info(`Agent "${adapter.name}" resolved to ${adapter.source}.`);
+    return;
+  }
+  if (adapter.permissionProfile !== permissionProfile) {
+    if (permissionProfile !== "full") {
+      core.warning(
+        `Agent "${adapter.name}" does not declare flags for the "${permissionProfile}" permission profile and will not run.`,
+      );
+      return;
+    }
+    core.warning(
+      `Agent "${adapter.name}" does not declare flags for the "full" permission profile; running with its configured args.`,
+    );
+  }
+  const { cmd } = adapter.buildCommand();
+  const versionIndex = adapter.source.lastIndexOf("@");
+  const version = versionIndex > 0 ? adapter.source.slice(versionIndex + 1) : "";
+  if (cmd !== "bunx" || isExactVersion(version)) {
+    core.info(`Agent "${adapter.name}" resolved to ${adapter.source}.`);
+    return;
+  }
+  const cwd = process.env.GITHUB_WORKSPACE ?? process.cwd();
+  try {
+    const output = await spawnProvider(
+      [cmd, adapter.source, "--version"],
+      undefined,
+      cwd,
+      undefined,
+      VERSION_PROBE_TIMEOUT_MS,
+    );
+    core.info(`Agent "${adapter.name}" resolved to ${adapter.source} (version ${output.trim()}).`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Unable to determine the version of ${adapter.source}: ${message}`);
+  }
+};
+
+const writePromptFile = async (prompt: string): Promise<string> => {
+  const path = join(tmpdir(), `spec-gardener-prompt-${Math.random().toString(16).slice(2)}.md`);
+  await Bun.write(path, prompt);
+  return path;
+};
+
+const runProvider = async (
+  { cmd, args, env, prompt: transport }: AgentCommand,
+  prompt: string,
+  timeoutMs: number,
+): Promise<string> => {
+  const cwd = process.env.GITHUB_WORKSPACE ?? process.cwd();
+  const promptFile = transport === "file" ? await writePromptFile(prompt) : undefined;
+  try {
+    let commandArgs = args;
+    if (promptFile) {
+      commandArgs = args.some((arg) => arg.includes(PROMPT_FILE_PLACEHOLDER))
+        ? args.map((arg) => arg.replaceAll(PROMPT_FILE_PLACEHOLDER, promptFile))
+        : [...args, promptFile];
+    }
+    core.info(`Running: ${cmd} ${commandArgs.join(" ")} (cwd: ${cwd}, prompt via ${transport})`);
+    return await spawnProvider(
+      [cmd, ...commandArgs, ...(transport === "argv" ? [prompt] : [])],
+      transport === "stdin" ? new Blob([prompt]) : undefined,
+      cwd,
+      env,
+      timeoutMs,
+    );
+  } finally {
+    if (promptFile) {
+      rmSync(promptFile, { force: true });
+    }
+  }
+};
+
+const executeAdapter = async (
+  adapter: ProviderAdapter,
+  prompt: string,
+  timeoutMs: number,
+  task?: PromptTask,
+): Promise<string> => {
+  if (adapter.request) {
+    return await adapter.request(prompt, timeoutMs, task);
+  }
+  if (!adapter.buildCommand) {
+    throw new Error(`Agent "${adapter.name}" defines neither a command nor an HTTP endpoint.`);
+  }
+  return await runProvider(adapter.buildCommand(), prompt, timeoutMs);
+};
+
+const runAgent = async (
+  adapter: ProviderAdapter,
+  prompt: string,
+  timeoutMs: number,
+  maxAttempts: number,
+  task: PromptTask = "refine",
+): Promise<CliResult> => {
+  let attemptPrompt = prompt;
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    const output = await executeAdapter(adapter, attemptPrompt, timeoutMs, task);
+    core.info(formatLogBlock("Raw agent output", output));
+    const { result, parseFailed, errors, toolUses, usage } = adapter.parseOutput(output, task);
+    if (toolUses) {
+      core.info(formatToolTrace(toolUses));
+    }
+    if (usage) {
+      core.info(formatUsage(usage));
+    }
+    core.info(formatParsedResult(result));
+    if (!parseFailed) {
+      return result;
+    }
+
+    const problems = errors ?? [];
+    core.error(
+      `Failed to parse agent output as JSON (attempt ${attempt}/${maxAttempts}): ${problems.join(" ")}`,
+    );
+    if (attempt < maxAttempts) {
+      // On failure the parser hands back the extracted agent message as question content.
+      const previousOutput = result.type === "question" ? result.content : output;
+      attemptPrompt = buildRepairPrompt(prompt, previousOutput, problems);
+      core.info(`Retrying agent with validation errors (attempt ${attempt + 1}/${maxAttempts}).`);
+    }
+  }
+  // The ask task only accepts answers, so tell the asker that none came back.
+  const expected = task === "ask" ? "an answer to the question" : "a valid response";
+  throw new AgentOutputError(
+    `The agent did not return ${expected} after ${maxAttempts} attempt${maxAttempts === 1 ? "" : "s"}.`,
+  );
+};
+
+/**
+ * Runs the configured agents in order until one produces a valid result. A non-zero exit,
+ * a timeout or exhausted parse attempts moves on to the next agent; the last failure is
+ * rethrown when every agent fails.
+ */
+const runAgentChain = async (
+  adapters: ProviderAdapter[],
+  context: SpecContext,
+  customPrompt: string,
+  promptOptions: PromptOptions,
+  timeoutMs: number,
+  maxParseAttempts: number,
+): Promise<{ result: CliResult; agentName: string }> => {
+  let lastError: unknown;
+  for (const [index, adapter] of adapters.entries()) {
+    const prompt = adapter.buildPrompt(context, customPrompt, promptOptions);
+    core.info(formatLogBlock(`Prompt sent to agent "${adapter.name}"`, prompt));
+    try {
+      const result = await runAgent(
+        adapter,
+        prompt,
+        timeoutMs,
+        maxParseAttempts,
+        promptOptions.task,
+      );
+      core.info(`Answered by agent "${adapter.name}".`);
+      return { result, agentName: adapter.name };
+    } catch (error) {
+      lastError = error;
+      const message = error instanceof Error ? error.message : String(error);
+      const next = adapters[index + 1];
+      if (next) {
+        core.warning(
+          `Agent "${adapter.name}" failed: ${message} Falling back to agent "${next.name}".`,
+        );
+      } else if (adapters.length > 1) {
+        core.error(`Agent "${adapter.name}" failed: ${message} No fallback agents remain.`);
+      }
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Runs every agent in parallel on the same context and reduces their votes to one result,
+ * either through a judge agent or, when no judge is configured or the judge fails, through
+ * the deterministic merge rules.
+ */
+const runConsensus = async (
+  adapters: ProviderAdapter[],
+  judge: ProviderAdapter | undefined,
+  context: SpecContext,
+  customPrompt: string,
+  promptOptions: PromptOptions,
+  timeoutMs: number,
+  maxParseAttempts: number,
+): Promise<CliResult> => {
+  const outcomes = await Promise.allSettled(
+    adapters.map((adapter) => {
+      const prompt = adapter.buildPrompt(context, customPrompt, promptOptions);
+      core.info(formatLogBlock(`Prompt sent to agent "${adapter.name}"`, prompt));
+      return runAgent(adapter, prompt, timeoutMs, maxParseAttempts, promptOptions.task);
+    }),
+  );
+
+  const votes: AgentVote[] = [];
+  let firstError: unknown;
+  for (const [index, outcome] of outcomes.entries()) {
+    const agent = adapters[index].name;
+    if (outcome.status === "fulfilled") {
+      const vote = { agent, result: outcome.value };
+      votes.push(vote);
+      core.info(`Consensus vote from agent "${agent}": ${describeVote(vote)}`);
+      continue;
+    }
+    firstError ??= outcome.reason;
+    const message =
+      outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    core.warning(`Consensus vote from agent "${agent}" failed: ${message}`);
+  }
+  if (!votes.length) {
+    throw firstError;
+  }
+
+  if (judge) {
+    const prompt = buildJudgePrompt(context, votes, customPrompt, promptOptions);
+    core.info(formatLogBlock(`Prompt sent to judge "${judge.name}"`, prompt));
+    try {
+      const result = await runAgent(judge, prompt, timeoutMs, maxParseAttempts, promptOptions.task);
+      core.info(
+        `Consensus decided by judge "${judge.name}": ${describeVote({ agent: judge.name, result })}`,
+      );
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      core.warning(`Judge "${judge.name}" failed: ${message} Merging votes deterministically.`);
+    }
+  }
+
+  const merged = mergeVotes(votes);
+  core.info(
+    `Consensus decided by merge rules: ${describeVote({ agent: MERGE_JUDGE, result: merged })}`,
+  );
+  return merged;
+};
+
+type SplitResult = Extract<CliResult, { type: "split" }>;
+
+const SUB_ISSUES_HEADING = "## Sub-issues";
+
+/**
+ * Creates each proposed child spec as an issue, links it as a sub-issue of the parent
+ * and appends a checklist of the created issues to the parent body. Creation stops at
+ * the first failure; the issues created so far are still linked and reported.
+ */
+const applySplit = async (
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  result: SplitResult,
+  specContext: SpecContext,
+): Promise<string> => {
+  const created: Array<{ number: number; title: string }> = [];
+  let failure: string | undefined;
+  for (const issue of result.issues) {
+    try {
+      const { data } = await octokit.rest.issues.create({
+        owner,
+        repo,
+        title: normalizeTitle(issue.title),
+        body: buildSpecBody(issue.body),
+        labels: issue.labels,
+      });
+      created.push({ number: data.number, title: data.title });
+      core.info(`Created sub-issue #${data.number}.`);
+      try {
+        await octokit.rest.issues.addSubIssue({
+          owner,
+          repo,
+          issue_number: issueNumber,
+          sub_issue_id: data.id,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`Failed to link #${data.number} as a sub-issue: ${message}`);
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+      core.warning(`Failed to create sub-issue "${issue.title}": ${failure}`);
+      break;
+    }
+  }
+
+  if (created.length) {
+    // The checklist stays at the end of the body, so later splits extend it.
+    const checklist = created.map(({ number }) => `- [ ] #${number}`).join("\n");
+    const body = specContext.body.includes(SUB_ISSUES_HEADING)
+      ? `${specContext.body}\n${checklist}`
+      : `${specContext.body}\n\n${SUB_ISSUES_HEADING}\n${checklist}`;
+    await octokit.rest.issues.update({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildSpecBody(body),
+    });
+  }
+
+  const lines = [
+    created.length
+      ? `Split into ${created.length} sub-issue${created.length === 1 ? "" : "s"}:`
+      : "No sub-issues were created.",
+    ...created.map(({ number, title }) => `- #${number} ${title}`),
+  ];
+  if (failure) {
+    lines.push("", `Stopped after ${created.length} of ${result.issues.length} issues: ${failure}`);
+  }
+  return result.comment ? `${lines.join("\n")}\n\n${result.comment}` : lines.join("\n");
+};
+
+type ApplyResultOptions = {
+  mentionOn: Set<MentionOn>;
+  /** Agent credited in the comment when several agents could have answered. */
+  answeredBy?: string;
+  /** Line appended to the comment, such as the revision a reset started from. */
+  note?: string;
+  /** Body to diff the completed spec against in the summary comment. */
+  diffAgainst?: string;
+};
+
 const applyResult = async (
   octokit: Octokit,
   owner: string,
@@ -156,8 +641,9 @@ const applyResult = async (
   issueNumber: number,
   result: CliResult,
   specContext: SpecContext,
-  mentionOn: Set<MentionOn>,
+  { mentionOn, answeredBy, note, diffAgainst }: ApplyResultOptions,
 ): Promise<void> => {
+  const withNote = (content: string): string => (note ? `${content}\n\n${note}` : content);
   if (result.type === "no_change") {
     await octokit.rest.reactions.createForIssue({
       owner,
@@ -165,10 +651,22 @@ const applyResult = async (
       issue_number: issueNumber,
       content: THUMBS_UP_REACTION,
     });
+    if (note) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(note, specContext.author, false),
+      });
+    }
     return;
   }
   if (result.type === "question") {
-    const comment = buildComment(result.content, specContext.author, mentionOn.has("question"));
+    const comment = buildComment(
+      withNote(result.content),
+      specContext.author,
+      mentionOn.has("question"),
+    );
     await octokit.rest.issues.createComment({
       owner,
       repo,
@@ -178,6 +676,80 @@ const applyResult = async (
     return;
   }
 
+  if (result.type === "answer") {
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildComment(
+        answeredBy ? `${result.content}\n\n${buildAgentAttribution(answeredBy)}` : result.content,
+        "",
+        false,
+      ),
+    });
+    return;
+  }
+
+  if (result.type === "verify") {
+    const report = buildVerificationReport(result.checks, specContext.linkedIssues ?? []);
+    const content = result.comment ? `${result.comment}\n\n${report}` : report;
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildComment(
+        answeredBy
+          ? `${withNote(content)}\n\n${buildAgentAttribution(answeredBy)}`
+          : withNote(content),
+        specContext.author,
+        mentionOn.has("complete"),
+      ),
+    });
+    return;
+  }
+
+  if (result.type === "criteria") {
+    await octokit.rest.issues.update({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildSpecBody(applyCriteriaSection(specContext.body, result)),
+    });
+    const summary =
+      result.comment ??
+      `Acceptance criteria (${result.criteria.length}) and test plan (${result.tests.length}) have been updated.`;
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildComment(
+        answeredBy
+          ? `${withNote(summary)}\n\n${buildAgentAttribution(answeredBy)}`
+          : withNote(summary),
+        specContext.author,
+        mentionOn.has("complete"),
+      ),
+    });
+    return;
+  }
+
+  if (result.type === "split") {
+    const report = await applySplit(octokit, owner, repo, issueNumber, result, specContext);
+    await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body: buildComment(
+        answeredBy
+          ? `${withNote(report)}\n\n${buildAgentAttribution(answeredBy)}`
+          : withNote(report),
+        specContext.author,
+        mentionOn.has("complete"),
+      ),
+    });
+    return;
+  }
+
   const newBody = buildSpecBody(result.body);
   const updateParams: {
     owner: string;
@@ -200,8 +772,12 @@ const applyResult = async (
   }
   await octokit.rest.issues.update(updateParams);
 
+  const diff = diffAgainst === undefined ? "" : buildDiffDetails(diffAgainst, result.body);
+  const summary = [result.comment ?? "Specification has been updated.", diff]
+    .filter(Boolean)
+    .join("\n\n");
   const summaryComment = buildComment(
-    result.comment ?? "Specification has been updated.",
+    answeredBy ? `${withNote(summary)}\n\n${buildAgentAttribution(answeredBy)}` : withNote(summary),
     specContext.author,
     mentionOn.has("complete"),
   );
@@ -221,11 +797,45 @@ export const main = async (): Promise<void> => {
   let issueAuthor: string | undefined;
   let mentionOn: Set<MentionOn> = new Set();
   try {
-    const agent = getRequiredInput("agent");
+    const agents = parseAgentList(getRequiredInput("agent"));
     token = getRequiredInput("github_token");
-    const timeoutMs = getTimeoutInput("agent_timeout_ms", DEFAULT_AGENT_TIMEOUT_MS);
+    const timeoutMs = getPositiveIntegerInput("agent_timeout_ms", DEFAULT_AGENT_TIMEOUT_MS, "ms");
+    const maxParseAttempts = getPositiveIntegerInput(
+      "max_parse_attempts",
+      DEFAULT_MAX_PARSE_ATTEMPTS,
+    );
     const customPrompt = core.getInput("custom_prompt");
+    const strategy = parseStrategy(core.getInput("agent_strategy"));
+    const judgeName = core.getInput("consensus_judge").trim().toLowerCase() || MERGE_JUDGE;
     mentionOn = parseMentionOn(core.getInput("mention_on"));
+    const diffBudget = getIntegerInput("diff_budget", DEFAULT_DIFF_BUDGET, 0);
+    const promptOptions: PromptOptions = {
+      budget: getIntegerInput("context_budget", DEFAULT_CONTEXT_BUDGET, 0),
+    };
+    const relatedItemsLimit = getIntegerInput(
+      "related_items_limit",
+      DEFAULT_RELATED_ITEMS_LIMIT,
+      0,
+    );
+    const relatedItemsDepth = getPositiveIntegerInput(
+      "related_items_depth",
+      DEFAULT_RELATED_ITEMS_DEPTH,
+    );
+    const guidelinesLimit = getIntegerInput("guidelines_limit", DEFAULT_GUIDELINES_LIMIT, 0);
+    const diffInComment = core.getInput("diff_in_comment").trim().toLowerCase() === "true";
+    const verifyPullRequests =
+      core.getInput("verify_pull_requests").trim().toLowerCase() === "true";
+
+    const workspace = process.env.GITHUB_WORKSPACE ?? process.cwd();
+    const configInput = core.getInput("config_path").trim();
+    const config = await loadConfig(
+      resolve(workspace, configInput || DEFAULT_CONFIG_PATH),
+      Boolean(configInput),
+    );
+    const versionOverrides = {
+      ...config.versions,
+      ...parseAgentVersions(core.getInput("agent_version"), agents),
+    };
 
     const repoSlug = process.env.GITHUB_REPOSITORY ?? "";
     [owner, repo] = repoSlug.split("/");
@@ -241,7 +851,36 @@ export const main = async (): Promise<void> => {
     const eventName = process.env.GITHUB_EVENT_NAME ?? "";
     const event = JSON.parse(await Bun.file(eventPath).text()) as EventPayload;
 
-    const { shouldRun, reason, command, commandCreatedAt } = shouldProcess(eventName, event);
+    const permissionProfile = resolvePermissionProfile(
+      core.getInput("permission_profile"),
+      eventName,
+      event,
+    );
+    core.info(`Using the "${permissionProfile}" permission profile.`);
+
+    const fixturesDir = resolve(
+      workspace,
+      core.getInput("fixtures_dir").trim() || DEFAULT_FIXTURES_DIR,
+    );
+    const recordFixtures = core.getInput("record_fixtures").trim().toLowerCase() === "true";
+    const resolveAdapter = (name: string): ProviderAdapter => {
+      if (name === REPLAY_AGENT) {
+        return createReplayAdapter(fixturesDir);
+      }
+      const adapter = getAdapter(name, config.agents, versionOverrides[name], permissionProfile);
+      return recordFixtures
+        ? createRecordingAdapter(adapter, fixturesDir, executeAdapter)
+        : adapter;
+    };
+    const adapters = agents.map(resolveAdapter);
+    const judge =
+      strategy === "consensus" && judgeName !== MERGE_JUDGE ? resolveAdapter(judgeName) : undefined;
+
+    const { shouldRun, reason, command, commandArgument, commandCreatedAt } = shouldProcess(
+      eventName,
+      event,
+      { verifyPullRequests },
+    );
     if (!shouldRun) {
       core.info(reason ?? "Skipping processing.");
       return;
@@ -263,11 +902,134 @@ export const main = async (): Promise<void> => {
       });
       return;
     }
+    if (command === "diff") {
+      const source = await fetchDiffSource(
+        octokit,
+        owner,
+        repo,
+        issueNumber,
+        isPullRequestEvent ? "pullRequest" : "issue",
+        commandArgument,
+      );
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(buildDiffCommentContent(source), "", false),
+      });
+      return;
+    }
+    if (command === "undo" && !isTrustedEvent(eventName, event)) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(
+          "`/spec-gardener undo` is limited to owners, members and collaborators of the repository. The description was not changed.",
+          "",
+          false,
+        ),
+      });
+      return;
+    }
+    if (command === "undo") {
+      const target = await fetchUndoTarget(
+        octokit,
+        owner,
+        repo,
+        issueNumber,
+        isPullRequestEvent ? "pullRequest" : "issue",
+        commandArgument,
+      );
+      if (target.body !== undefined) {
+        await octokit.rest.issues.update({
+          owner,
+          repo,
+          issue_number: issueNumber,
+          body: target.body,
+          ...(target.title ? { title: target.title } : {}),
+        });
+        core.info(`Restored revision ${target.revision?.number} of ${target.revision?.total}.`);
+      }
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(buildUndoContent(target), "", false),
+      });
+      return;
+    }
+    if (command === "split" && isPullRequestEvent) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment("`/spec-gardener split` only works on issues.", "", false),
+      });
+      return;
+    }
+    if (command === "split" && !isTrustedEvent(eventName, event)) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(
+          "`/spec-gardener split` is limited to owners, members and collaborators of the repository. No issues were created.",
+          "",
+          false,
+        ),
+      });
+      return;
+    }
+    if (command === "verify" && !isPullRequestEvent) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment("`/spec-gardener verify` only works on pull requests.", "", false),
+      });
+      return;
+    }
+    if (command === "ask" && !commandArgument) {
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(
+          "Add your question after the command, for example `/spec-gardener ask Which modules would this touch?`.",
+          "",
+          false,
+        ),
+      });
+      return;
+    }
+    for (const adapter of judge ? [...adapters, judge] : adapters) {
+      await logResolvedAgent(adapter, permissionProfile);
+    }
     const specContext = isPullRequestEvent
-      ? await fetchPullRequestContext(octokit, owner, repo, issueNumber)
+      ? await fetchPullRequestContext(octokit, owner, repo, issueNumber, diffBudget)
       : await fetchIssueContext(octokit, owner, repo, issueNumber);
     issueAuthor = specContext.author;
-    const adjustedContext =
+    const linkedIssues =
+      command === "verify" ? await fetchClosingIssues(octokit, owner, repo, issueNumber) : [];
+    if (command === "verify" && !linkedIssues.length) {
+      if (eventName === "pull_request") {
+        core.info("Skipping verification: the pull request does not close any issues.");
+        return;
+      }
+      await octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body: buildComment(
+          "This pull request does not close any issues, so there is no spec to verify it against. Link one with a closing keyword such as `Closes #123`.",
+          "",
+          false,
+        ),
+      });
+      return;
+    }
+    const reset =
       command === "reset"
         ? await applyResetContext(
             specContext,
@@ -277,25 +1039,90 @@ export const main = async (): Promise<void> => {
             issueNumber,
             isPullRequestEvent ? "pullRequest" : "issue",
             commandCreatedAt,
+            commandArgument,
           )
-        : specContext;
-    const adapter = getAdapter(agent);
-    const { cmd, args } = adapter.buildCommand();
-    const prompt = adapter.buildPrompt(adjustedContext, customPrompt);
-    core.info(formatLogBlock("Prompt sent to agent", prompt));
-    const output = await runProvider(cmd, args, prompt, timeoutMs);
-    core.info(formatLogBlock("Raw agent output", output));
-    const { result, parseFailed } = adapter.parseOutput(output);
-    core.info(formatParsedResult(result));
-    if (parseFailed) {
-      core.error(`Failed to parse agent output as JSON.`);
+        : undefined;
+    const resetContext = reset?.context ?? specContext;
+    if (reset) {
+      core.info(
+        reset.revision
+          ? `Reset to revision ${reset.revision.number} of ${reset.revision.total}.`
+          : "Reset from the current description; no earlier revision was found.",
+      );
     }
-
-    await applyResult(octokit, owner, repo, issueNumber, result, adjustedContext, mentionOn);
+    const relatedItems = await fetchRelatedItems(octokit, owner, repo, issueNumber, resetContext, {
+      limit: relatedItemsLimit,
+      depth: relatedItemsDepth,
+      serverUrl: process.env.GITHUB_SERVER_URL,
+    });
+    if (relatedItems.length) {
+      core.info(`Loaded related items: ${relatedItems.map((item) => item.reference).join(", ")}`);
+    }
+    const guidelines =
+      guidelinesLimit > 0
+        ? await loadGuidelines(
+            workspace,
+            core.getInput("guidelines_dir").trim() || DEFAULT_GUIDELINES_DIR,
+            resetContext.metadata?.labels ?? [],
+            guidelinesLimit,
+          )
+        : [];
+    if (guidelines.length) {
+      core.info(`Loaded guidelines: ${guidelines.map((guideline) => guideline.path).join(", ")}`);
+    }
+    const adjustedContext = {
+      ...resetContext,
+      ...(relatedItems.length ? { relatedItems } : {}),
+      ...(guidelines.length ? { guidelines } : {}),
+      ...(command === "ask" ? { question: commandArgument } : {}),
+      ...(linkedIssues.length ? { linkedIssues } : {}),
+    };
+    const taskPromptOptions: PromptOptions = {
+      ...promptOptions,
+      task: (command && COMMAND_TASKS[command]) ?? "refine",
+    };
+    let result: CliResult;
+    let answeredBy: string | undefined;
+    if (strategy === "consensus") {
+      result = await runConsensus(
+        adapters,
+        judge,
+        adjustedContext,
+        customPrompt,
+        taskPromptOptions,
+        timeoutMs,
+        maxParseAttempts,
+      );
+    } else {
+      const outcome = await runAgentChain(
+        adapters,
+        adjustedContext,
+        customPrompt,
+        taskPromptOptions,
+        timeoutMs,
+        maxParseAttempts,
+      );
+      result = outcome.result;
+      answeredBy = adapters.length > 1 ? outcome.agentName : undefined;
+    }
+    await applyResult(octokit, owner, repo, issueNumber, result, adjustedContext, {
+      mentionOn,
+      answeredBy,
+      note: reset && buildResetNote(reset),
+      diffAgainst: diffInComment ? specContext.body : undefined,
+    });
   } catch (error) {
     const message = error instanceof Error ? (error.stack ?? error.message) : "Unknown error";
     if (owner && repo && issueNumber && token) {
-      await postErrorComment(owner, repo, issueNumber, token, issueAuthor, mentionOn.has("error"));
+      await postErrorComment(
+        owner,
+        repo,
+        issueNumber,
+        token,
+        issueAuthor,
+        mentionOn.has("error"),
+        error instanceof AgentOutputError ? error.message : undefined,
+      );
     }
     core.setFailed(message);
   }
@@ -0,0 +1,221 @@
+import type { AgentUsage, OutputFormat, ToolUse } from "./adapters";
+
+export type NativeOutput = {
+  message: string;
+  toolUses: ToolUse[];
+  usage?: AgentUsage;
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+const summarizeInput = (input: unknown): string | undefined => {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  const rendered = typeof input === "string" ? input : JSON.stringify(input);
+  return rendered.length > 200 ? `${rendered.slice(0, 200)}...` : rendered;
+};
+
+// Both streaming formats emit one JSON event per line; anything else on stdout is ignored.
+const parseJsonLines = (output: string): JsonRecord[] => {
+  const events: JsonRecord[] = [];
+  for (const line of output.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{")) {
+      continue;
+    }
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (isRecord(parsed)) {
+        events.push(parsed);
+      }
+    } catch {
+      // Skip partial or non-JSON lines.
+    }
+  }
+  return events;
+};
+
+const parseClaudeStreamJson = (output: string): NativeOutput | null => {
+  const toolUses: ToolUse[] = [];
+  let lastAssistantText: string | undefined;
+  let resultText: string | undefined;
+  let usage: AgentUsage | undefined;
+
+  for (const event of parseJsonLines(output)) {
+    if (event.type === "assistant" && isRecord(event.message)) {
+      const content = Array.isArray(event.message.content) ? event.message.content : [];
+      const texts: string[] = [];
+      for (const block of content) {
+        if (!isRecord(block)) {
+          continue;
+        }
+        if (block.type === "text" && typeof block.text === "string") {
+          texts.push(block.text);
+        }
+        if (block.type === "tool_use" && typeof block.name === "string") {
+          toolUses.push({ name: block.name, detail: summarizeInput(block.input) });
+        }
+      }
+      if (texts.length) {
+        lastAssistantText = texts.join("\n");
+      }
+    }
+    if (event.type === "result") {
+      resultText = asString(event.result);
+      const rawUsage = isRecord(event.usage) ? event.usage : {};
+      usage = {
+        inputTokens: asNumber(rawUsage.input_tokens),
+        outputTokens: asNumber(rawUsage.output_tokens),
+        cachedInputTokens: asNumber(rawUsage.cache_read_input_tokens),
+        costUsd: asNumber(event.total_cost_usd),
+      };
+    }
+  }
+
+  const message = resultText ?? lastAssistantText;
+  if (message === undefined) {
+    return null;
+  }
+  return { message, toolUses, usage };
+};
+
+const parseCodexJson = (output: string): NativeOutput | null => {
+  const toolUses: ToolUse[] = [];
+  let message: string | undefined;
+  let usage: AgentUsage | undefined;
+
+  for (const event of parseJsonLines(output)) {
+    if (event.type === "item.completed" && isRecord(event.item)) {
+      const item = event.item;
+      switch (item.type) {
+        case "agent_message":
+          message = asString(item.text) ?? message;
+          break;
+        case "command_execution":
+          toolUses.push({ name: "shell", detail: summarizeInput(item.command) });
+          break;
+        case "mcp_tool_call":
+          toolUses.push({
+            name: [asString(item.server), asString(item.tool)].filter(Boolean).join("/") || "mcp",
+            detail: summarizeInput(item.arguments),
+          });
+          break;
+        case "web_search":
+          toolUses.push({ name: "web_search", detail: summarizeInput(item.query) });
+          break;
+        default:
+          break;
+      }
+    }
+    if (event.type === "turn.completed" && isRecord(event.usage)) {
+      usage = {
+        inputTokens: (usage?.inputTokens ?? 0) + (asNumber(event.usage.input_tokens) ?? 0),
+        outputTokens: (usage?.outputTokens ?? 0) + (asNumber(event.usage.output_tokens) ?? 0),
+        cachedInputTokens:
+          (usage?.cachedInputTokens ?? 0) + (asNumber(event.usage.cached_input_tokens) ?? 0),
+      };
+    }
+  }
+
+  if (message === undefined) {
+    return null;
+  }
+  return { message, toolUses, usage };
+};
+
+const parseGeminiJson = (output: string): NativeOutput | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.trim());
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || typeof parsed.response !== "string") {
+    return null;
+  }
+
+  const stats = isRecord(parsed.stats) ? parsed.stats : {};
+  const toolUses: ToolUse[] = [];
+  const tools = isRecord(stats.tools) ? stats.tools : {};
+  if (isRecord(tools.byName)) {
+    for (const [name, entry] of Object.entries(tools.byName)) {
+      const count = isRecord(entry) ? asNumber(entry.count) : undefined;
+      const detail = count === undefined ? undefined : `${count} call${count === 1 ? "" : "s"}`;
+      toolUses.push({ name, detail });
+    }
+  }
+
+  let usage: AgentUsage | undefined;
+  if (isRecord(stats.models)) {
+    usage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0 };
+    for (const model of Object.values(stats.models)) {
+      const tokens = isRecord(model) && isRecord(model.tokens) ? model.tokens : {};
+      usage.inputTokens = (usage.inputTokens ?? 0) + (asNumber(tokens.prompt) ?? 0);
+      usage.outputTokens = (usage.outputTokens ?? 0) + (asNumber(tokens.candidates) ?? 0);
+      usage.cachedInputTokens = (usage.cachedInputTokens ?? 0) + (asNumber(tokens.cached) ?? 0);
+    }
+  }
+
+  return { message: parsed.response, toolUses, usage };
+};
+
+const parseOpenAiChatJson = (output: string): NativeOutput | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output.trim());
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.choices)) {
+    return null;
+  }
+  const choice: unknown = parsed.choices[0];
+  const message = isRecord(choice) && isRecord(choice.message) ? choice.message : {};
+  if (typeof message.content !== "string") {
+    return null;
+  }
+
+  let usage: AgentUsage | undefined;
+  if (isRecord(parsed.usage)) {
+    const details = isRecord(parsed.usage.prompt_tokens_details)
+      ? parsed.usage.prompt_tokens_details
+      : {};
+    usage = {
+      inputTokens: asNumber(parsed.usage.prompt_tokens),
+      outputTokens: asNumber(parsed.usage.completion_tokens),
+      cachedInputTokens: asNumber(details.cached_tokens),
+    };
+  }
+  return { message: message.content, toolUses: [], usage };
+};
+
+/**
+ * Extracts the final assistant message, tool-use trace and usage from a CLI's
+ * machine-readable output or an OpenAI-compatible chat completion response. Returns null
+ * when the output does not match the format (for example when the CLI failed before
+ * emitting any events).
+ */
+export const parseNativeOutput = (format: OutputFormat, output: string): NativeOutput | null => {
+  switch (format) {
+    case "claude-stream-json":
+      return parseClaudeStreamJson(output);
+    case "codex-json":
+      return parseCodexJson(output);
+    case "gemini-json":
+      return parseGeminiJson(output);
+    case "openai-chat-json":
+      return parseOpenAiChatJson(output);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,78 @@
+import type { ChangedFile } from "./adapters";
+
+const LOCKFILE_NAMES = new Set([
+  "bun.lock",
+  "bun.lockb",
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "deno.lock",
+  "cargo.lock",
+  "go.sum",
+  "poetry.lock",
+  "uv.lock",
+  "pipfile.lock",
+  "composer.lock",
+  "gemfile.lock",
+  "podfile.lock",
+  "packages.lock.json",
+]);
+
+const GENERATED_PATTERNS = [
+  /(^|\/)(dist|build|out|vendor|node_modules|__generated__|generated)\//,
+  /\.min\.(js|css)$/,
+  /\.map$/,
+  /\.snap$/,
+  /\.(generated|gen|pb)\.\w+$/,
+  /_pb2?\.py$/,
+];
+
+/** Minimum space worth spending on a partial patch; smaller remainders are omitted. */
+const MIN_PARTIAL_PATCH_LENGTH = 200;
+
+export const TRUNCATED_PATCH_MARKER = "[truncated: diff budget exceeded]";
+export const OMITTED_PATCH_MARKER = "[omitted: diff budget exceeded]";
+
+/** Lockfiles and generated files rarely explain a change, so their patches go last. */
+export const isLowPriorityFile = (filename: string): boolean => {
+  const lower = filename.toLowerCase();
+  const basename = lower.slice(lower.lastIndexOf("/") + 1);
+  return LOCKFILE_NAMES.has(basename) || GENERATED_PATTERNS.some((pattern) => pattern.test(lower));
+};
+
+/**
+ * Keeps patch text within `budget` characters. Source files are filled first, then
+ * lockfiles and generated files, each group in its original order. The patch that
+ * crosses the budget is cut at a line boundary; later patches are replaced with a marker.
+ * File order in the result is unchanged.
+ */
+export const applyPatchBudget = (files: ChangedFile[], budget: number): ChangedFile[] => {
+  const order = files
+    .map((file, index) => ({ file, index, low: isLowPriorityFile(file.filename) }))
+    .sort((a, b) => Number(a.low) - Number(b.low) || a.index - b.index);
+
+  const patches = new Map<number, string | undefined>();
+  let remaining = budget;
+  for (const { file, index } of order) {
+    if (file.patch === undefined) {
+      continue;
+    }
+    if (file.patch.length <= remaining) {
+      patches.set(index, file.patch);
+      remaining -= file.patch.length;
+    } else if (remaining >= MIN_PARTIAL_PATCH_LENGTH) {
+      const cut = file.patch.lastIndexOf("\n", remaining);
+      const partial = file.patch.slice(0, cut > 0 ? cut : remaining);
+      patches.set(index, `${partial}\n${TRUNCATED_PATCH_MARKER}`);
+      remaining = 0;
+    } else {
+      patches.set(index, OMITTED_PATCH_MARKER);
+      remaining = 0;
+    }
+  }
+
+  return files.map((file, index) =>
+    file.patch === undefined ? file : { ...file, patch: patches.get(index) },
+  );
+};
@@ -1,4 +1,5 @@
-import type { SpecContext } from "./adapters";
+import type { HierarchyIssue, IssueComment, SpecContext } from "./adapters";
+import type { AgentVote } from "./consensus";
 
 type PromptTemplateSection = {
   id: string;
@@ -7,10 +8,19 @@ type PromptTemplateSection = {
   includeWhen?: (context: SpecContext, customPrompt?: string) => boolean;
 };
 
-type PromptTemplate = {
-  language: string;
+/** What the agent is asked to do; each task has its own instructions and JSON format. */
+export type PromptTask = "refine" | "split" | "ask" | "criteria" | "verify";
+
+type TaskInstructions = {
   intro: string[];
   format: string[];
+  /** What a judge should look for when picking or merging consensus candidates. */
+  judge: string[];
+};
+
+type PromptTemplate = {
+  language: string;
+  tasks: Record<PromptTask, TaskInstructions>;
   sections: PromptTemplateSection[];
 };
 
@@ -18,16 +28,99 @@ const appendSection = (parts: string[], title: string, body: string): void => {
   parts.push("", title, body || "(empty)");
 };
 
+/** Case-insensitive label check for `includeWhen` predicates. */
+export const hasLabel = (context: SpecContext, label: string): boolean =>
+  Boolean(context.metadata?.labels.some((name) => name.toLowerCase() === label.toLowerCase()));
+
+const buildMetadataSection = (context: SpecContext): string => {
+  const metadata = context.metadata;
+  if (!metadata) {
+    return "";
+  }
+  const lines = [
+    `Labels: ${metadata.labels.join(", ") || "(none)"}`,
+    `Milestone: ${metadata.milestone ?? "(none)"}`,
+    `Assignees: ${metadata.assignees.join(", ") || "(none)"}`,
+  ];
+  if (metadata.issueType) {
+    lines.push(`Type: ${metadata.issueType}`);
+  }
+  return lines.join("\n");
+};
+
+const renderComment = (comment: IssueComment, index: number, body = comment.body): string =>
+  `# Comment ${index + 1}\nRole: ${comment.role ?? "user"}\nAuthor: ${comment.author}\nCreated: ${comment.createdAt}\n${body}`;
+
 const buildCommentsSection = (context: SpecContext): string => {
   if (!context.comments.length) {
     return "(no comments)";
   }
-  return context.comments
-    .map(
-      (comment, index) =>
-        `# Comment ${index + 1}\nAuthor: ${comment.author}\nCreated: ${comment.createdAt}\n${comment.body}`,
-    )
-    .join("\n\n");
+  return context.comments.map((comment, index) => renderComment(comment, index)).join("\n\n");
+};
+
+const CONDENSED_COMMENT_LENGTH = 200;
+// Room kept for the notes that describe condensed and omitted comments.
+const COMMENT_NOTES_RESERVE = 200;
+
+const formatCommentRange = (from: number, to: number, total: number): string =>
+  from === to ? `Comment ${from} of ${total}` : `Comments ${from}-${to} of ${total}`;
+
+const condenseComment = (comment: IssueComment, index: number): string => {
+  const body = comment.body.trim().replace(/\s+/g, " ");
+  return renderComment(
+    comment,
+    index,
+    body.length > CONDENSED_COMMENT_LENGTH
+      ? `${body.slice(0, CONDENSED_COMMENT_LENGTH).trimEnd()} [condensed]`
+      : body,
+  );
+};
+
+/**
+ * Fits the comment history into `budget` characters. The newest comments are kept
+ * verbatim (always at least one), older ones are condensed to their opening text, and
+ * the oldest are omitted once even condensed comments no longer fit.
+ */
+const fitComments = (comments: IssueComment[], budget: number): string => {
+  const available = budget - COMMENT_NOTES_RESERVE;
+  const total = comments.length;
+  const kept: string[] = [renderComment(comments[total - 1], total - 1)];
+  let used = kept[0].length;
+  let firstKept = total - 1;
+  while (firstKept > 0) {
+    const rendered = renderComment(comments[firstKept - 1], firstKept - 1);
+    if (used + rendered.length + 2 > available) {
+      break;
+    }
+    kept.unshift(rendered);
+    used += rendered.length + 2;
+    firstKept -= 1;
+  }
+
+  const condensed: string[] = [];
+  let firstCondensed = firstKept;
+  while (firstCondensed > 0) {
+    const rendered = condenseComment(comments[firstCondensed - 1], firstCondensed - 1);
+    if (used + rendered.length + 2 > available) {
+      break;
+    }
+    condensed.unshift(rendered);
+    used += rendered.length + 2;
+    firstCondensed -= 1;
+  }
+
+  const notes: string[] = [];
+  if (firstCondensed > 0) {
+    notes.push(
+      `[${formatCommentRange(1, firstCondensed, total)} omitted to fit the context budget.]`,
+    );
+  }
+  if (firstKept > firstCondensed) {
+    notes.push(
+      `[${formatCommentRange(firstCondensed + 1, firstKept, total)} condensed to their first ${CONDENSED_COMMENT_LENGTH} characters to fit the context budget.]`,
+    );
+  }
+  return [...notes, ...condensed, ...kept].join("\n\n");
 };
 
 const buildChangedFilesSection = (context: SpecContext): string => {
@@ -42,30 +135,197 @@ const buildChangedFilesSection = (context: SpecContext): string => {
     .join("\n");
 };
 
+const buildDiffSection = (context: SpecContext): string =>
+  (context.changedFiles ?? [])
+    .filter((file) => file.patch !== undefined)
+    .map((file) => `## ${file.filename}\n\`\`\`diff\n${file.patch}\n\`\`\``)
+    .join("\n\n");
+
+const buildReviewsSection = (context: SpecContext): string =>
+  (context.reviews ?? [])
+    .map(
+      (review, index) =>
+        `## Review ${index + 1}\nAuthor: ${review.author}\nState: ${review.state}\nSubmitted: ${review.submittedAt}\n${review.body || "(no summary)"}`,
+    )
+    .join("\n\n");
+
+const buildReviewThreadsSection = (context: SpecContext): string =>
+  (context.reviewThreads ?? [])
+    .map((thread) => {
+      const location = thread.line === undefined ? thread.path : `${thread.path}:${thread.line}`;
+      const status = [thread.isResolved ? "resolved" : "unresolved"];
+      if (thread.isOutdated) {
+        status.push("outdated");
+      }
+      const comments = thread.comments
+        .map((comment) => `${comment.author} (${comment.createdAt}): ${comment.body}`)
+        .join("\n");
+      return `## ${location} (${status.join(", ")})\n${comments}`;
+    })
+    .join("\n\n");
+
+const buildRelatedItemsSection = (context: SpecContext): string =>
+  (context.relatedItems ?? [])
+    .map((item) => {
+      const kind = item.kind === "pull_request" ? "pull request" : "issue";
+      const labels = item.labels.length ? item.labels.join(", ") : "(none)";
+      return `## ${item.reference} (${kind}, ${item.state}): ${item.title}\nLabels: ${labels}\n${item.body || "(empty)"}`;
+    })
+    .join("\n\n");
+
+const renderHierarchyIssue = (issue: HierarchyIssue, role: string): string =>
+  `## ${issue.reference} (${role}, ${issue.state}): ${issue.title}\n${issue.body || "(empty)"}`;
+
+const buildHierarchySection = (context: SpecContext): string => {
+  if (!context.hierarchy) {
+    return "";
+  }
+  const { parent, siblings } = context.hierarchy;
+  return [
+    "This issue is a sub-issue. Keep the specification consistent with the parent's scope and avoid overlapping with its siblings.",
+    renderHierarchyIssue(parent, "parent"),
+    ...siblings.map((sibling) => renderHierarchyIssue(sibling, "sibling")),
+  ].join("\n\n");
+};
+
+const buildLinkedIssuesSection = (context: SpecContext): string =>
+  (context.linkedIssues ?? [])
+    .map((issue) => `## ${issue.reference}: ${issue.title}\n${issue.body || "(empty)"}`)
+    .join("\n\n");
+
+const QUESTION_FORMAT = '{"type":"question","content":"..."}';
+const NO_CHANGE_FORMAT = '{"type":"no_change"}';
+
 const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
   language: "en",
-  intro: [
-    "You are a requirements assistant that analyzes codebases to refine specifications.",
-    "Read the codebase to understand the existing implementation.",
-    "If the specification is insufficient, ask clarifying questions.",
-    'If the specification is already clear and complete, return {"type":"no_change"}.',
-    "Only return complete when you actually refine or improve the body.",
-    "Do not rewrite the body with the same or similar content.",
-    "If the specification is sufficient and needs updates, output the completed spec.",
-    "When outputting a completed spec, you may include a refined title only if the current title needs improvement.",
-    "Do not include code examples, snippets, pseudo-code, or code blocks.",
-    "Focus on requirements, functional changes, and expected behavior, not implementation details.",
-    "Use implementation-agnostic language that is clear and readable to any engineer.",
-  ],
-  format: [
-    "Return JSON only.",
-    "Format:",
-    '{"type":"question","content":"..."}',
-    "or",
-    '{"type":"complete","body":"...","comment":"optional completion comment","title":"optional refined title"}',
-    "or",
-    '{"type":"no_change"}',
-  ],
+  tasks: {
+    refine: {
+      intro: [
+        "You are a requirements assistant that analyzes codebases to refine specifications.",
+        "Read the codebase to understand the existing implementation.",
+        "If the specification is insufficient, ask clarifying questions.",
+        'Comments with "Role: assistant" are your own earlier questions and summaries; do not ask again what has already been answered.',
+        'If the specification is already clear and complete, return {"type":"no_change"}.',
+        "Only return complete when you actually refine or improve the body.",
+        "Do not rewrite the body with the same or similar content.",
+        "If the specification is sufficient and needs updates, output the completed spec.",
+        "When outputting a completed spec, you may include a refined title only if the current title needs improvement.",
+        "Keep the acceptance criteria section and its HTML comment markers, if present, updating its items only when the requirements they cover changed.",
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+        "Focus on requirements, functional changes, and expected behavior, not implementation details.",
+        "Use implementation-agnostic language that is clear and readable to any engineer.",
+      ],
+      format: [
+        "Return JSON only.",
+        "Format:",
+        QUESTION_FORMAT,
+        "or",
+        '{"type":"complete","body":"...","comment":"optional completion comment","title":"optional refined title"}',
+        "or",
+        NO_CHANGE_FORMAT,
+      ],
+      judge: [
+        "You may merge candidates: combine clarifying questions that are still relevant, or merge completed specifications into one coherent body.",
+        "Prefer asking questions when the candidates disagree about essential requirements.",
+        'Return {"type":"no_change"} only when the candidates agree the specification is already complete.',
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+      ],
+    },
+    split: {
+      intro: [
+        "You are a requirements assistant that breaks a large specification into smaller issues that can be delivered independently.",
+        "Read the codebase to understand the existing implementation.",
+        "Split the specification into child issues that together cover its full scope without overlapping.",
+        "Give each child issue a concise title and a self-contained body with its requirements and expected behavior.",
+        "Only add labels that fit the child issue, preferring labels already used on this issue.",
+        "If the specification is too unclear to split, ask clarifying questions instead.",
+        'If the specification is already small enough to deliver as one issue, return {"type":"no_change"}.',
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+        "Use implementation-agnostic language that is clear and readable to any engineer.",
+      ],
+      format: [
+        "Return JSON only.",
+        "Format:",
+        '{"type":"split","issues":[{"title":"...","body":"...","labels":["optional label"]}],"comment":"optional summary comment"}',
+        "or",
+        QUESTION_FORMAT,
+        "or",
+        NO_CHANGE_FORMAT,
+      ],
+      judge: [
+        "A good split covers the full scope of the specification with child issues that do not overlap and can each be delivered on their own.",
+        "You may merge candidates into one list of child issues, keeping the clearest title and body for each part of the scope.",
+        "Prefer asking questions when the candidates disagree about what the specification covers.",
+        'Return {"type":"no_change"} only when the candidates agree the issue is already small enough.',
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+      ],
+    },
+    ask: {
+      intro: [
+        "You are a requirements assistant that answers questions about a specification and the codebase it affects.",
+        "Read the codebase to understand the existing implementation.",
+        'Answer the question under "# Question" using the specification, its comments and the code.',
+        "Say so when the answer cannot be determined from the available information.",
+        "Do not rewrite or restate the specification; your answer is posted as a comment and the description is left unchanged.",
+        "Keep the answer concise and refer to files, modules or behavior by name.",
+      ],
+      format: ["Return JSON only.", "Format:", '{"type":"answer","content":"..."}'],
+      judge: [
+        'A good answer addresses the question under "# Question" directly, is backed by the specification or the code, and says when something cannot be determined.',
+        "You may merge candidates into one concise answer, dropping claims that the others contradict and the context does not support.",
+      ],
+    },
+    criteria: {
+      intro: [
+        "You are a requirements assistant that writes acceptance criteria and a test plan for a specification.",
+        "Read the codebase to understand the existing implementation.",
+        'Write acceptance criteria in Given/When/Then form that together cover every requirement in the specification; put the Then part in "expected".',
+        "Write test cases that verify the criteria, each as one sentence naming the scenario and its expected outcome.",
+        "If the specification already has an Acceptance Criteria section, return the full replacement list, not only additions.",
+        'If the existing criteria and test plan already cover the specification, return {"type":"no_change"}.',
+        "If the specification is too unclear to derive criteria, ask clarifying questions instead.",
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+        "Use implementation-agnostic language that is clear and readable to any engineer.",
+      ],
+      format: [
+        "Return JSON only.",
+        "Format:",
+        '{"type":"criteria","criteria":[{"given":"...","when":"...","expected":"..."}],"tests":["..."],"comment":"optional summary comment"}',
+        "or",
+        QUESTION_FORMAT,
+        "or",
+        NO_CHANGE_FORMAT,
+      ],
+      judge: [
+        "Good criteria cover every requirement in the specification in Given/When/Then form, and every test case verifies at least one of them.",
+        "You may merge candidates into one list of criteria and one test plan, removing duplicates.",
+        "Prefer asking questions when the candidates disagree about essential requirements.",
+        'Return {"type":"no_change"} only when the candidates agree the existing criteria and test plan already cover the specification.',
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+      ],
+    },
+    verify: {
+      intro: [
+        "You are a requirements assistant that checks whether a pull request implements the specifications of the issues it closes.",
+        "Read the codebase and the pull request's changed files and diff.",
+        'Check every requirement in the issues under "# Linked Issues": mark it "satisfied" when the changes appear to implement it and "missing" when they do not.',
+        'Report notable changes that no linked issue asks for as "out_of_scope".',
+        "Use the note to point to the files or behavior behind each assessment.",
+        "When the diff is truncated or omitted, say so in the note instead of guessing.",
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+      ],
+      format: [
+        "Return JSON only.",
+        "Format:",
+        '{"type":"verify","checks":[{"status":"satisfied|missing|out_of_scope","requirement":"...","note":"optional evidence"}],"comment":"optional summary comment"}',
+      ],
+      judge: [
+        "A good checklist assesses every requirement in the linked issues once and points to the files or behavior behind each status.",
+        "You may merge candidates into one checklist; when they disagree about a requirement, mark it missing unless the diff shows it is implemented.",
+        "Do not include code examples, snippets, pseudo-code, or code blocks.",
+      ],
+    },
+  },
   sections: [
     {
       id: "custom",
@@ -73,11 +333,50 @@ const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
       buildBody: (_context, customPrompt) => customPrompt?.trim() ?? "",
       includeWhen: (_context, customPrompt) => Boolean(customPrompt?.trim()),
     },
+    {
+      id: "guidelines",
+      title: "# Repository Guidelines",
+      buildBody: (context) =>
+        (context.guidelines ?? [])
+          .map((guideline) => `## ${guideline.path}\n${guideline.content}`)
+          .join("\n\n"),
+      includeWhen: (context) => Boolean(context.guidelines?.length),
+    },
     {
       id: "issue-title",
       title: "# Issue Title",
       buildBody: (context) => context.title,
     },
+    {
+      id: "metadata",
+      title: "# Metadata",
+      buildBody: (context) => buildMetadataSection(context),
+      includeWhen: (context) => context.metadata !== undefined,
+    },
+    {
+      id: "bug-guidance",
+      title: "# Bug Report Guidance",
+      buildBody: () =>
+        [
+          "This item describes a bug.",
+          "Make sure the specification states the observed behavior, the expected behavior, the steps to reproduce and the affected area.",
+          "Ask for any of these that are missing.",
+        ].join("\n"),
+      includeWhen: (context) =>
+        hasLabel(context, "bug") || context.metadata?.issueType?.toLowerCase() === "bug",
+    },
+    {
+      id: "issue-hierarchy",
+      title: "# Issue Hierarchy",
+      buildBody: (context) => buildHierarchySection(context),
+      includeWhen: (context) => context.hierarchy !== undefined,
+    },
+    {
+      id: "linked-issues",
+      title: "# Linked Issues",
+      buildBody: (context) => buildLinkedIssuesSection(context),
+      includeWhen: (context) => Boolean(context.linkedIssues?.length),
+    },
     {
       id: "current-spec",
       title: "# Current Specification",
@@ -94,6 +393,36 @@ const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
       buildBody: (context) => buildChangedFilesSection(context),
       includeWhen: (context) => context.changedFiles !== undefined,
     },
+    {
+      id: "diff",
+      title: "# Diff",
+      buildBody: (context) => buildDiffSection(context),
+      includeWhen: (context) => Boolean(context.changedFiles?.some((file) => file.patch)),
+    },
+    {
+      id: "reviews",
+      title: "# Reviews",
+      buildBody: (context) => buildReviewsSection(context),
+      includeWhen: (context) => Boolean(context.reviews?.length),
+    },
+    {
+      id: "review-threads",
+      title: "# Review Threads",
+      buildBody: (context) => buildReviewThreadsSection(context),
+      includeWhen: (context) => Boolean(context.reviewThreads?.length),
+    },
+    {
+      id: "related-items",
+      title: "# Related Items",
+      buildBody: (context) => buildRelatedItemsSection(context),
+      includeWhen: (context) => Boolean(context.relatedItems?.length),
+    },
+    {
+      id: "question",
+      title: "# Question",
+      buildBody: (context) => context.question ?? "",
+      includeWhen: (context) => Boolean(context.question),
+    },
   ],
 };
 
@@ -108,21 +437,123 @@ const getPromptTemplate = (language?: string): PromptTemplate => {
   return PROMPT_TEMPLATES[language] ?? DEFAULT_PROMPT_TEMPLATE;
 };
 
-export const buildPrompt = (
+export type PromptOptions = {
+  language?: string;
+  /** Defaults to "refine". */
+  task?: PromptTask;
+  /**
+   * Maximum prompt length in characters. When exceeded, older comments are condensed
+   * or omitted; the specification and the newest comment are always kept. 0 disables it.
+   */
+  budget?: number;
+};
+
+// Replacement section bodies keyed by section id.
+type SectionOverrides = Partial<Record<string, string>>;
+
+const appendTemplateSections = (
+  parts: string[],
+  template: PromptTemplate,
   context: SpecContext,
   customPrompt?: string,
-  language?: string,
-): string => {
-  const template = getPromptTemplate(language);
-  const parts = [...template.intro, "", ...template.format];
-
+  overrides: SectionOverrides = {},
+): void => {
   for (const section of template.sections) {
     if (section.includeWhen && !section.includeWhen(context, customPrompt)) {
       continue;
     }
-    appendSection(parts, section.title, section.buildBody(context, customPrompt));
+    appendSection(
+      parts,
+      section.title,
+      overrides[section.id] ?? section.buildBody(context, customPrompt),
+    );
   }
+};
 
+const applyContextBudget = (
+  context: SpecContext,
+  budget: number,
+  render: (overrides: SectionOverrides) => string,
+): string => {
+  const prompt = render({});
+  if (budget <= 0 || prompt.length <= budget || context.comments.length <= 1) {
+    return prompt;
+  }
+  const fixedLength = render({ comments: "" }).length;
+  return render({ comments: fitComments(context.comments, budget - fixedLength) });
+};
+
+export const buildPrompt = (
+  context: SpecContext,
+  customPrompt?: string,
+  { language, task = "refine", budget = 0 }: PromptOptions = {},
+): string => {
+  const template = getPromptTemplate(language);
+  const { intro, format } = template.tasks[task];
+  return applyContextBudget(context, budget, (overrides) => {
+    const parts = [...intro, "", ...format];
+    appendTemplateSections(parts, template, context, customPrompt, overrides);
+    return parts.join("\n");
+  });
+};
+
+const JUDGE_INTRO = [
+  "You are a judge reviewing candidate results that several requirements assistants produced for the same specification.",
+  "Read the specification context and the candidate results, then return the single best result.",
+];
+
+export const buildJudgePrompt = (
+  context: SpecContext,
+  candidates: AgentVote[],
+  customPrompt?: string,
+  { language, task = "refine", budget = 0 }: PromptOptions = {},
+): string => {
+  const template = getPromptTemplate(language);
+  const { format, judge } = template.tasks[task];
+  return applyContextBudget(context, budget, (overrides) => {
+    const parts = [...JUDGE_INTRO, ...judge, "", ...format];
+    appendTemplateSections(parts, template, context, customPrompt, overrides);
+    appendSection(
+      parts,
+      "# Candidate Results",
+      candidates
+        .map(
+          (vote, index) =>
+            `## Candidate ${index + 1} (${vote.agent})\n${JSON.stringify(vote.result)}`,
+        )
+        .join("\n\n"),
+    );
+    return parts.join("\n");
+  });
+};
+
+const MAX_REPAIR_EXCERPT_LENGTH = 4000;
+
+/**
+ * Re-asks the agent after its output failed validation. The original prompt is kept so
+ * the agent still has the full context, followed by the problems and an excerpt of the
+ * rejected response.
+ */
+export const buildRepairPrompt = (
+  prompt: string,
+  previousOutput: string,
+  errors: string[],
+): string => {
+  const excerpt =
+    previousOutput.length > MAX_REPAIR_EXCERPT_LENGTH
+      ? `${previousOutput.slice(0, MAX_REPAIR_EXCERPT_LENGTH)}\n[truncated]`
+      : previousOutput;
+  const parts = [prompt];
+  appendSection(
+    parts,
+    "# Previous Response Errors",
+    [
+      "Your previous response could not be used because it did not match the required JSON format:",
+      ...errors.map((error) => `- ${error}`),
+      "Respond again with a single JSON object that follows the format above and nothing else.",
+    ].join("\n"),
+  );
+  appendSection(parts, "# Previous Response", excerpt.trim());
   return parts.join("\n");
 };
 
@@ -0,0 +1,52 @@
+export type ItemReference = {
+  owner: string;
+  repo: string;
+  number: number;
+};
+
+export const formatReference = ({ owner, repo, number }: ItemReference): string =>
+  `${owner}/${repo}#${number}`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Fenced and inline code often contains "#123"-like strings that are not references.
+const stripCode = (text: string): string =>
+  text.replace(/```[\s\S]*?```/g, "").replace(/`[^`\n]*`/g, "");
+
+/**
+ * Finds issue and pull request references in markdown: full URLs on `serverUrl`,
+ * `owner/repo#123`, and `#123` (resolved against `owner`/`repo`). References are
+ * returned once each, in order of first appearance.
+ */
+export const extractReferences = (
+  text: string,
+  owner: string,
+  repo: string,
+  serverUrl = "https://github.com",
+): ItemReference[] => {
+  const pattern = new RegExp(
+    [
+      `${escapeRegExp(serverUrl.replace(/\/+$/, ""))}/([\\w.-]+)/([\\w.-]+)/(?:issues|pull)/(\\d+)`,
+      "(?<![\\w/.-])([\\w.-]+)/([\\w.-]+)#(\\d+)\\b",
+      "(?<![\\w/#&])#(\\d+)\\b",
+    ].join("|"),
+    "g",
+  );
+  const references: ItemReference[] = [];
+  const seen = new Set<string>();
+  for (const match of stripCode(text).matchAll(pattern)) {
+    const reference: ItemReference = match[7]
+      ? { owner, repo, number: Number(match[7]) }
+      : {
+          owner: match[1] ?? match[4],
+          repo: match[2] ?? match[5],
+          number: Number(match[3] ?? match[6]),
+        };
+    const key = formatReference(reference).toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      references.push(reference);
+    }
+  }
+  return references;
+};
@@ -0,0 +1,115 @@
+import core from "@actions/core";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import {
+  parseAgentOutput,
+  type CliResult,
+  type OutputFormat,
+  type ProviderAdapter,
+} from "./adapters";
+import { buildPrompt, type PromptTask } from "./prompts";
+
+/** Agent name that answers from recorded fixtures instead of calling a model. */
+export const REPLAY_AGENT = "replay";
+
+export const DEFAULT_FIXTURES_DIR = ".github/spec-gardener/fixtures";
+
+/**
+ * A recorded prompt/response pair. `result` holds a validated response; `output` holds
+ * raw agent output that failed to parse, so replays also exercise the repair loop.
+ * `format` names the structured format of `output`, which defaults to "text".
+ */
+export type ReplayFixture = {
+  agent: string;
+  prompt: string;
+  result?: CliResult;
+  output?: string;
+  format?: OutputFormat;
+};
+
+export const hashPrompt = (prompt: string): string =>
+  createHash("sha256").update(prompt).digest("hex");
+
+export const getFixturePath = (dir: string, prompt: string): string =>
+  join(dir, `${hashPrompt(prompt)}.json`);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const readFixture = async (dir: string, prompt: string): Promise<ReplayFixture> => {
+  const path = getFixturePath(dir, prompt);
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new Error(
+      `No replay fixture for prompt ${hashPrompt(prompt)} in ${dir}. Record one with record_fixtures.`,
+    );
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid replay fixture at ${path}: ${message}`);
+  }
+  if (!isRecord(parsed) || (!isRecord(parsed.result) && typeof parsed.output !== "string")) {
+    throw new Error(`Invalid replay fixture at ${path}: expected a "result" or "output" field.`);
+  }
+  return parsed as ReplayFixture;
+};
+
+export const writeFixture = async (dir: string, fixture: ReplayFixture): Promise<string> => {
+  const path = getFixturePath(dir, fixture.prompt);
+  await Bun.write(path, `${JSON.stringify(fixture, null, 2)}\n`);
+  return path;
+};
+
+export const createReplayAdapter = (dir: string): ProviderAdapter => {
+  // Raw outputs are parsed in the format they were recorded in.
+  const formats = new Map<string, OutputFormat>();
+  return {
+    name: REPLAY_AGENT,
+    source: `fixtures in ${dir}`,
+    request: async (prompt) => {
+      const fixture = await readFixture(dir, prompt);
+      if (fixture.output === undefined) {
+        return JSON.stringify(fixture.result);
+      }
+      if (fixture.format) {
+        formats.set(fixture.output, fixture.format);
+      }
+      return fixture.output;
+    },
+    buildPrompt: buildPrompt,
+    parseOutput: (output, task) => parseAgentOutput(output, formats.get(output), task),
+  };
+};
+
+/**
+ * Wraps an adapter so every prompt/response pair it produces is written to `dir`.
+ * `execute` runs the wrapped adapter; the fixture keeps the result parsed for the task
+ * when the output is valid and the raw output with its format otherwise.
+ */
+export const createRecordingAdapter = (
+  adapter: ProviderAdapter,
+  dir: string,
+  execute: (
+    adapter: ProviderAdapter,
+    prompt: string,
+    timeoutMs: number,
+    task?: PromptTask,
+  ) => Promise<string>,
+): ProviderAdapter => ({
+  ...adapter,
+  request: async (prompt, timeoutMs, task) => {
+    const output = await execute(adapter, prompt, timeoutMs, task);
+    const { result, parseFailed } = adapter.parseOutput(output, task);
+    const path = await writeFixture(
+      dir,
+      parseFailed
+        ? { agent: adapter.name, prompt, output, format: adapter.output ?? "text" }
+        : { agent: adapter.name, prompt, result },
+    );
+    core.info(`Recorded replay fixture ${path}.`);
+    return output;
+  },
+});
@@ -1,5 +1,21 @@
 import { describe, expect, it } from "bun:test";
-import { getAdapter, getAgentConfig, parseCliOutput, type SpecContext } from "../src/adapters";
+import {
+  getAdapter,
+  getAgentConfig,
+  parseAgentOutput,
+  parseCliOutput,
+  validateCliResult,
+  type AgentCommand,
+  type ProviderAdapter,
+  type SpecContext,
+} from "../src/adapters";
+
+const commandOf = (adapter: ProviderAdapter): AgentCommand => {
+  if (!adapter.buildCommand) {
+    throw new Error(`Agent "${adapter.name}" does not spawn a process.`);
+  }
+  return adapter.buildCommand();
+};
 
 describe("parseCliOutput", () => {
   it("parses question JSON", () => {
@@ -64,6 +80,7 @@ describe("parseCliOutput", () => {
     expect(result).toEqual({
       result: { type: "question", content: "No output received from agent." },
       parseFailed: true,
+      errors: ["No output received from agent."],
     });
   });
 
@@ -72,6 +89,7 @@ describe("parseCliOutput", () => {
     expect(result).toEqual({
       result: { type: "question", content: "plain output" },
       parseFailed: true,
+      errors: ["Output does not contain a valid JSON object."],
     });
   });
 
@@ -90,6 +108,7 @@ describe("parseCliOutput", () => {
     expect(result).toEqual({
       result: { type: "question", content: '{"type":"unknown"}' },
       parseFailed: true,
+      errors: ['"type" must be one of "question", "complete", "no_change".'],
     });
   });
 
@@ -98,9 +117,25 @@ describe("parseCliOutput", () => {
     expect(result).toEqual({
       result: { type: "question", content: "{broken}" },
       parseFailed: true,
+      errors: expect.any(Array),
     });
   });
 
+  it("rejects properties outside the schema", () => {
+    const result = parseCliOutput('{"type":"no_change","reason":"looks fine"}');
+    expect(result.parseFailed).toBe(true);
+    expect(result.errors).toEqual(['Unexpected property "reason" for type "no_change".']);
+  });
+
+  it("rejects missing required fields and wrongly typed optional fields", () => {
+    const result = parseCliOutput('{"type":"complete","body":"","title":42}');
+    expect(result.parseFailed).toBe(true);
+    expect(result.errors).toEqual([
+      '"body" must be a non-empty string for type "complete".',
+      '"title" must be a string when provided.',
+    ]);
+  });
+
   it("repairs trailing commas in JSON output", () => {
     const result = parseCliOutput('{"type":"question","content":"Hello",}');
     expect(result).toEqual({
@@ -118,6 +153,198 @@ describe("parseCliOutput", () => {
   });
 });
 
+describe("validateCliResult", () => {
+  it("accepts valid results", () => {
+    expect(validateCliResult({ type: "question", content: "Why?" })).toEqual({
+      result: { type: "question", content: "Why?" },
+    });
+    expect(validateCliResult({ type: "complete", body: "Spec", title: null })).toEqual({
+      result: { type: "complete", body: "Spec", comment: "Spec updated by Spec Gardener." },
+    });
+  });
+
+  it("rejects non-object values", () => {
+    expect(validateCliResult(["question"])).toEqual({ errors: ["Expected a JSON object."] });
+  });
+
+  it("rejects result types the task does not allow", () => {
+    const split = { type: "split", issues: [{ title: "Cart", body: "Cart spec" }] };
+    expect(validateCliResult(split)).toEqual({
+      errors: ['"type" must be one of "question", "complete", "no_change".'],
+    });
+    expect(validateCliResult({ type: "complete", body: "Spec" }, "split")).toEqual({
+      errors: ['"type" must be one of "question", "split", "no_change".'],
+    });
+    expect(validateCliResult({ type: "question", content: "Why?" }, "ask")).toEqual({
+      errors: ['"type" must be one of "answer".'],
+    });
+    expect(parseCliOutput(JSON.stringify(split), "split").parseFailed).toBe(false);
+  });
+
+  it("accepts split results and normalizes labels", () => {
+    expect(
+      validateCliResult(
+        {
+          type: "split",
+          issues: [
+            { title: " Cart ", body: "Cart spec", labels: ["ui", " "] },
+            { title: "Payment", body: "Payment spec" },
+          ],
+        },
+        "split",
+      ),
+    ).toEqual({
+      result: {
+        type: "split",
+        issues: [
+          { title: "Cart", body: "Cart spec", labels: ["ui"] },
+          { title: "Payment", body: "Payment spec", labels: [] },
+        ],
+        comment: undefined,
+      },
+    });
+  });
+
+  it("reports invalid split issues", () => {
+    expect(validateCliResult({ type: "split", issues: [] }, "split")).toEqual({
+      errors: ['"issues" must be a non-empty list for type "split".'],
+    });
+    expect(
+      validateCliResult(
+        {
+          type: "split",
+          issues: [{ title: "", body: "Spec", labels: "ui", size: 3 }, "Payment"],
+        },
+        "split",
+      ),
+    ).toEqual({
+      errors: [
+        'Unexpected property "size" in "issues[0]".',
+        '"issues[0].title" must be a non-empty string.',
+        '"issues[0].labels" must be a list of strings when provided.',
+        '"issues[1]" must be an object.',
+      ],
+    });
+  });
+
+  it("accepts criteria results and reports invalid ones", () => {
+    expect(
+      validateCliResult(
+        {
+          type: "criteria",
+          criteria: [{ given: " a cart ", when: "paying", expected: "an order exists" }],
+          tests: ["Pay for a cart "],
+        },
+        "criteria",
+      ),
+    ).toEqual({
+      result: {
+        type: "criteria",
+        criteria: [{ given: "a cart", when: "paying", expected: "an order exists" }],
+        tests: ["Pay for a cart"],
+        comment: undefined,
+      },
+    });
+    expect(
+      validateCliResult(
+        {
+          type: "criteria",
+          criteria: [{ given: "a cart", when: "paying", priority: 1 }],
+          tests: [""],
+        },
+        "criteria",
+      ),
+    ).toEqual({
+      errors: [
+        'Unexpected property "priority" in "criteria[0]".',
+        '"criteria[0].expected" must be a non-empty string.',
+        '"tests[0]" must be a non-empty string.',
+      ],
+    });
+  });
+
+  it("accepts verify results and reports invalid checks", () => {
+    expect(
+      validateCliResult(
+        {
+          type: "verify",
+          checks: [
+            { status: "satisfied", requirement: " Pay by card ", note: "checkout.ts" },
+            { status: "missing", requirement: "Refunds", note: " " },
+          ],
+        },
+        "verify",
+      ),
+    ).toEqual({
+      result: {
+        type: "verify",
+        checks: [
+          { status: "satisfied", requirement: "Pay by card", note: "checkout.ts" },
+          { status: "missing", requirement: "Refunds", note: undefined },
+        ],
+        comment: undefined,
+      },
+    });
+    expect(
+      validateCliResult(
+        { type: "verify", checks: [{ status: "done", requirement: "", note: 1 }] },
+        "verify",
+      ),
+    ).toEqual({
+      errors: [
+        '"checks[0].status" must be one of "satisfied", "missing", "out_of_scope".',
+        '"checks[0].requirement" must be a non-empty string.',
+        '"checks[0].note" must be a string when provided.',
+      ],
+    });
+  });
+
+  it("accepts answer results", () => {
+    expect(validateCliResult({ type: "answer", content: "The cart module." }, "ask")).toEqual({
+      result: { type: "answer", content: "The cart module." },
+    });
+    expect(validateCliResult({ type: "answer", content: " " }, "ask")).toEqual({
+      errors: ['"content" must be a non-empty string for type "answer".'],
+    });
+  });
+});
+
+describe("parseAgentOutput", () => {
+  it("parses the final message from native output", () => {
+    const output = [
+      JSON.stringify({
+        type: "assistant",
+        message: { content: [{ type: "tool_use", name: "Grep", input: { pattern: "main" } }] },
+      }),
+      JSON.stringify({
+        type: "result",
+        result: '{"type":"question","content":"Which API?"}',
+        usage: { input_tokens: 10, output_tokens: 2 },
+      }),
+    ].join("\n");
+    expect(parseAgentOutput(output, "claude-stream-json")).toEqual({
+      result: { type: "question", content: "Which API?" },
+      parseFailed: false,
+      toolUses: [{ name: "Grep", detail: '{"pattern":"main"}' }],
+      usage: { inputTokens: 10, outputTokens: 2, cachedInputTokens: undefined, costUsd: undefined },
+    });
+  });
+
+  it("falls back to the text heuristic when native output is missing", () => {
+    expect(parseAgentOutput('{"type":"no_change"}', "codex-json")).toEqual({
+      result: { type: "no_change" },
+      parseFailed: false,
+    });
+  });
+
+  it("uses each built-in agent's native format", () => {
+    const output = JSON.stringify({ response: '{"type":"no_change"}', stats: {} });
+    expect(getAdapter("gemini").parseOutput(output).result).toEqual({ type: "no_change" });
+    expect(getAgentConfig("claude")?.output).toBe("claude-stream-json");
+    expect(getAgentConfig("codex")?.output).toBe("codex-json");
+  });
+});
+
 describe("adapter prompt", () => {
   it("includes issue context", () => {
     const context: SpecContext = {
@@ -181,7 +408,7 @@ describe("adapter selection", () => {
 
   it("exposes known agent config", () => {
     const adapter = getAdapter("codex");
-    const command = adapter.buildCommand();
+    const command = commandOf(adapter);
     expect(command.args.length).toBeGreaterThan(0);
   });
 
@@ -189,4 +416,171 @@ describe("adapter selection", () => {
     expect(getAgentConfig("codex")?.name).toBe("codex");
     expect(getAgentConfig("unknown")).toBeUndefined();
   });
+
+  it("resolves custom agents with a direct command", () => {
+    const adapter = getAdapter("our-agent", {
+      "our-agent": { name: "our-agent", command: "our-wrapper", args: ["--json"] },
+    });
+    expect(commandOf(adapter)).toEqual({
+      cmd: "our-wrapper",
+      args: ["--json"],
+      env: undefined,
+      prompt: "stdin",
+    });
+  });
+
+  it("runs custom agent packages via bunx", () => {
+    const adapter = getAdapter("aider", {
+      aider: { name: "aider", package: "aider-cli@1.2.3", args: [] },
+    });
+    expect(commandOf(adapter)).toEqual({
+      cmd: "bunx",
+      args: ["aider-cli@1.2.3"],
+      env: undefined,
+      prompt: "stdin",
+    });
+  });
+
+  it("expands env references for custom agents", () => {
+    process.env.SPEC_GARDENER_TEST_TOKEN = "secret";
+    try {
+      const adapter = getAdapter("our-agent", {
+        "our-agent": {
+          name: "our-agent",
+          command: "our-wrapper",
+          args: [],
+          env: { OUR_TOKEN: "${SPEC_GARDENER_TEST_TOKEN}", MISSING: "${SPEC_GARDENER_UNSET}" },
+        },
+      });
+      expect(commandOf(adapter).env).toEqual({ OUR_TOKEN: "secret", MISSING: "" });
+    } finally {
+      delete process.env.SPEC_GARDENER_TEST_TOKEN;
+    }
+  });
+
+  it("delivers prompts to built-in agents over stdin", () => {
+    for (const agent of ["claude", "codex", "gemini"]) {
+      expect(commandOf(getAdapter(agent)).prompt).toBe("stdin");
+    }
+    expect(commandOf(getAdapter("codex")).args).toContain("-");
+  });
+
+  it("keeps the configured prompt transport for custom agents", () => {
+    const adapter = getAdapter("filer", {
+      filer: {
+        name: "filer",
+        command: "filer",
+        args: ["--input", "{prompt_file}"],
+        prompt: "file",
+      },
+    });
+    expect(commandOf(adapter).prompt).toBe("file");
+  });
+
+  it("pins built-in agents to tested versions", () => {
+    expect(commandOf(getAdapter("claude")).args[0]).toBe("@anthropic-ai/claude-code@2.1.1");
+    expect(getAdapter("codex").source).toBe("@openai/codex@0.87.0");
+    expect(getAdapter("gemini").source).toBe("@google/gemini-cli@0.26.0");
+  });
+
+  it("applies version overrides to package agents", () => {
+    expect(commandOf(getAdapter("codex", {}, "latest")).args[0]).toBe("@openai/codex@latest");
+    const adapter = getAdapter(
+      "aider",
+      { aider: { name: "aider", package: "aider-cli@1.2.3", args: [] } },
+      "2.0.0",
+    );
+    expect(adapter.source).toBe("aider-cli@2.0.0");
+  });
+
+  it("rejects version overrides for command agents", () => {
+    expect(() =>
+      getAdapter("local", { local: { name: "local", command: "local-agent", args: [] } }, "1.0.0"),
+    ).toThrow('Agent "local" runs a command, so its version cannot be overridden.');
+  });
+
+  it("lets custom agents override built-in entries", () => {
+    const customAgents = {
+      codex: { name: "codex", package: "@acme/codex-fork@1.0.0", args: ["exec"] },
+    };
+    expect(getAgentConfig("codex", customAgents)?.package).toBe("@acme/codex-fork@1.0.0");
+    expect(commandOf(getAdapter("codex", customAgents)).args[0]).toBe("@acme/codex-fork@1.0.0");
+  });
+
+  it("builds HTTP adapters for endpoint agents", () => {
+    const adapter = getAdapter("local", {
+      local: {
+        name: "local",
+        args: [],
+        http: { baseUrl: "http://localhost:8000/v1", model: "qwen2.5-coder" },
+      },
+    });
+    expect(adapter.source).toBe("qwen2.5-coder via http://localhost:8000/v1");
+    expect(adapter.buildCommand).toBeUndefined();
+    expect(adapter.request).toBeDefined();
+    const output = JSON.stringify({
+      choices: [{ message: { role: "assistant", content: '{"type":"no_change"}' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 2 },
+    });
+    expect(adapter.parseOutput(output)).toEqual({
+      result: { type: "no_change" },
+      parseFailed: false,
+      toolUses: [],
+      usage: { inputTokens: 10, outputTokens: 2, cachedInputTokens: undefined },
+    });
+  });
+
+  it("translates permission profiles into built-in CLI flags", () => {
+    expect(commandOf(getAdapter("claude", {}, undefined, "read-only")).args).toEqual([
+      "@anthropic-ai/claude-code@2.1.1",
+      "--print",
+      "--output-format",
+      "stream-json",
+      "--verbose",
+      "--allowed-tools",
+      "Read,Glob,Grep",
+    ]);
+    expect(commandOf(getAdapter("codex", {}, undefined, "read-only")).args).toEqual([
+      "@openai/codex@0.87.0",
+      "exec",
+      "--json",
+      "-",
+      "--sandbox",
+      "read-only",
+    ]);
+    expect(commandOf(getAdapter("gemini", {}, undefined, "full")).args.slice(-2)).toEqual([
+      "--approval-mode",
+      "yolo",
+    ]);
+    for (const agent of ["claude", "codex", "gemini"]) {
+      const args = commandOf(getAdapter(agent, {}, undefined, "read-search")).args.join(" ");
+      expect(args).not.toMatch(/dangerously|yolo|Bash/);
+    }
+  });
+
+  it("applies custom permission flags and reports missing profiles", () => {
+    const customAgents = {
+      local: {
+        name: "local",
+        command: "local-agent",
+        args: ["--json"],
+        permissions: { "read-only": ["--no-shell"] },
+      },
+    };
+    const restricted = getAdapter("local", customAgents, undefined, "read-only");
+    expect(commandOf(restricted).args).toEqual(["--json", "--no-shell"]);
+    expect(restricted.permissionProfile).toBe("read-only");
+    const full = getAdapter("local", customAgents, undefined, "full");
+    expect(commandOf(full).args).toEqual(["--json"]);
+    expect(full.permissionProfile).toBeUndefined();
+    expect(() => commandOf(getAdapter("local", customAgents, undefined, "read-search"))).toThrow(
+      'Agent "local" does not declare flags for the "read-search" permission profile.',
+    );
+  });
+
+  it("lists custom agents in unknown agent errors", () => {
+    expect(() =>
+      getAdapter("missing", { local: { name: "local", command: "local-agent", args: [] } }),
+    ).toThrow('Unknown agent "missing". Supported agents: claude, codex, gemini, local');
+  });
 });
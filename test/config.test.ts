@@ -0,0 +1,235 @@
+import { describe, expect, it } from "bun:test";
+import { rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, parseConfig } from "../src/config";
+
+describe("parseConfig", () => {
+  it("returns empty config for empty file", () => {
+    expect(parseConfig("")).toEqual({ agents: {}, versions: {} });
+  });
+
+  it("parses custom agents", () => {
+    const config = parseConfig(
+      [
+        "agents:",
+        "  Our-Agent:",
+        "    command: our-wrapper",
+        "    args: ['--json']",
+        "    env:",
+        "      OUR_TOKEN: ${OUR_AGENT_TOKEN}",
+        "  aider:",
+        "    package: aider-cli@1.2.3",
+      ].join("\n"),
+    );
+    expect(config.agents["our-agent"]).toEqual({
+      name: "our-agent",
+      command: "our-wrapper",
+      package: undefined,
+      version: undefined,
+      args: ["--json"],
+      env: { OUR_TOKEN: "${OUR_AGENT_TOKEN}" },
+      prompt: undefined,
+      output: undefined,
+    });
+    expect(config.agents.aider).toEqual({
+      name: "aider",
+      command: undefined,
+      package: "aider-cli@1.2.3",
+      version: undefined,
+      args: [],
+      env: undefined,
+      prompt: undefined,
+      output: undefined,
+    });
+  });
+
+  it("parses prompt transport", () => {
+    const config = parseConfig(
+      "agents:\n  filer:\n    command: filer\n    args: ['--input', '{prompt_file}']\n    prompt: file\n",
+    );
+    expect(config.agents.filer?.prompt).toBe("file");
+  });
+
+  it("parses agent versions", () => {
+    const config = parseConfig(
+      [
+        "versions:",
+        "  Claude: 2.0.0",
+        "agents:",
+        "  aider:",
+        "    package: aider-cli",
+        "    version: '1.2'",
+      ].join("\n"),
+    );
+    expect(config.versions).toEqual({ claude: "2.0.0" });
+    expect(config.agents.aider?.version).toBe("1.2");
+  });
+
+  it("rejects invalid versions", () => {
+    expect(() =>
+      parseConfig(
+        [
+          "versions:",
+          "  claude: 1.2",
+          "agents:",
+          "  local:",
+          "    command: a",
+          "    version: '1'",
+        ].join("\n"),
+      ),
+    ).toThrow(
+      [
+        "- versions.claude: expected a non-empty string (quote numeric versions).",
+        "- agents.local.version: only applies to agents that run a package.",
+      ].join("\n"),
+    );
+  });
+
+  it("reports every validation error", () => {
+    expect(() =>
+      parseConfig(
+        [
+          "extra: true",
+          "agents:",
+          "  broken:",
+          "    args: [1]",
+          "    shell: true",
+          "  bad-prompt:",
+          "    command: a",
+          "    prompt: socket",
+          "    output: xml",
+          "  both:",
+          "    command: a",
+          "    package: b",
+        ].join("\n"),
+        "custom.yml",
+      ),
+    ).toThrow(
+      [
+        "Invalid Spec Gardener config at custom.yml:",
+        '- unknown key "extra".',
+        '- agents.broken: unknown key "shell".',
+        '- agents.broken: one of "command", "package" or "http" is required.',
+        "- agents.broken.args: expected a list of strings.",
+        "- agents.bad-prompt.prompt: expected one of argv, stdin, file.",
+        "- agents.bad-prompt.output: expected one of text, claude-stream-json, codex-json, gemini-json, openai-chat-json.",
+        '- agents.both: "command" and "package" are mutually exclusive.',
+      ].join("\n"),
+    );
+  });
+
+  it("parses permission flags", () => {
+    const config = parseConfig(
+      [
+        "agents:",
+        "  local:",
+        "    command: local-agent",
+        "    permissions:",
+        "      read-only: ['--sandbox', 'read-only']",
+        "      full: []",
+      ].join("\n"),
+    );
+    expect(config.agents.local?.permissions).toEqual({
+      "read-only": ["--sandbox", "read-only"],
+      full: [],
+    });
+  });
+
+  it("rejects unknown permission profiles", () => {
+    expect(() =>
+      parseConfig(
+        [
+          "agents:",
+          "  local:",
+          "    command: local-agent",
+          "    permissions:",
+          "      admin: ['--root']",
+          "      full: --yolo",
+        ].join("\n"),
+      ),
+    ).toThrow(
+      [
+        '- agents.local.permissions: unknown profile "admin" (expected read-only, read-search, full).',
+        "- agents.local.permissions.full: expected a list of strings.",
+      ].join("\n"),
+    );
+  });
+
+  it("parses HTTP endpoint agents", () => {
+    const config = parseConfig(
+      [
+        "agents:",
+        "  local:",
+        "    http:",
+        "      base_url: http://localhost:8000/v1",
+        "      model: qwen2.5-coder",
+        "      api_key_env: LOCAL_MODEL_KEY",
+        "      temperature: 0.2",
+        "      json_mode: true",
+      ].join("\n"),
+    );
+    expect(config.agents.local?.http).toEqual({
+      baseUrl: "http://localhost:8000/v1",
+      model: "qwen2.5-coder",
+      apiKeyEnv: "LOCAL_MODEL_KEY",
+      temperature: 0.2,
+      jsonMode: true,
+    });
+  });
+
+  it("rejects invalid HTTP endpoint agents", () => {
+    expect(() =>
+      parseConfig(
+        [
+          "agents:",
+          "  local:",
+          "    command: a",
+          "    http:",
+          "      base_url: localhost:8000",
+          "      temperature: hot",
+          "      json_mode: 'yes'",
+          "      stream: true",
+        ].join("\n"),
+      ),
+    ).toThrow(
+      [
+        '- agents.local: "http" cannot be combined with "command" or "package".',
+        '- agents.local.http: unknown key "stream".',
+        "- agents.local.http.base_url: expected an http(s) URL.",
+        "- agents.local.http.model: expected a non-empty string.",
+        "- agents.local.http.temperature: expected a number between 0 and 2.",
+        "- agents.local.http.json_mode: expected true or false.",
+      ].join("\n"),
+    );
+  });
+
+  it("rejects malformed YAML", () => {
+    expect(() => parseConfig("agents: [", "bad.yml")).toThrow(
+      "Invalid Spec Gardener config at bad.yml",
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  it("returns empty config when optional file is missing", async () => {
+    const path = join(tmpdir(), "spec-gardener-missing-config.yml");
+    expect(await loadConfig(path)).toEqual({ agents: {}, versions: {} });
+  });
+
+  it("throws when required file is missing", async () => {
+    const path = join(tmpdir(), "spec-gardener-missing-config.yml");
+    await expect(loadConfig(path, true)).rejects.toThrow("Spec Gardener config not found");
+  });
+
+  it("loads config from disk", async () => {
+    const path = join(tmpdir(), `spec-gardener-config-${Math.random().toString(16).slice(2)}.yml`);
+    await Bun.write(path, "agents:\n  local:\n    command: ./bin/agent\n");
+    try {
+      const config = await loadConfig(path);
+      expect(config.agents.local?.command).toBe("./bin/agent");
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+import { describeVote, mergeVotes } from "../src/consensus";
+
+describe("mergeVotes", () => {
+  it("combines distinct clarifying questions when questions win", () => {
+    const result = mergeVotes([
+      { agent: "claude", result: { type: "question", content: "Which API version?" } },
+      { agent: "codex", result: { type: "question", content: "Which API version? " } },
+      { agent: "gemini", result: { type: "question", content: "Who are the users?" } },
+    ]);
+    expect(result).toEqual({
+      type: "question",
+      content: "**claude**\n\nWhich API version?\n\n**gemini**\n\nWho are the users?",
+    });
+  });
+
+  it("keeps a single question unchanged", () => {
+    expect(
+      mergeVotes([
+        { agent: "claude", result: { type: "question", content: "Why?" } },
+        { agent: "codex", result: { type: "no_change" } },
+      ]),
+    ).toEqual({ type: "question", content: "Why?" });
+  });
+
+  it("chooses the most complete body when complete wins", () => {
+    const result = mergeVotes([
+      { agent: "claude", result: { type: "complete", body: "Short spec" } },
+      { agent: "codex", result: { type: "complete", body: "A much longer spec", title: "T" } },
+      { agent: "gemini", result: { type: "question", content: "Why?" } },
+    ]);
+    expect(result).toEqual({ type: "complete", body: "A much longer spec", title: "T" });
+  });
+
+  it("returns no_change when most agents agree nothing changes", () => {
+    expect(
+      mergeVotes([
+        { agent: "claude", result: { type: "no_change" } },
+        { agent: "codex", result: { type: "no_change" } },
+        { agent: "gemini", result: { type: "complete", body: "Spec" } },
+      ]),
+    ).toEqual({ type: "no_change" });
+  });
+
+  it("prefers questions on ties", () => {
+    expect(
+      mergeVotes([
+        { agent: "claude", result: { type: "complete", body: "Spec" } },
+        { agent: "codex", result: { type: "question", content: "Why?" } },
+      ]).type,
+    ).toBe("question");
+  });
+
+  it("keeps the first split proposal when split wins", () => {
+    const first = { title: "Cart", body: "Cart spec", labels: [] };
+    const second = { title: "Payment", body: "Payment spec", labels: [] };
+    expect(
+      mergeVotes([
+        { agent: "claude", result: { type: "no_change" } },
+        { agent: "codex", result: { type: "split", issues: [first] } },
+        { agent: "gemini", result: { type: "split", issues: [first, second] } },
+      ]),
+    ).toEqual({ type: "split", issues: [first] });
+  });
+
+  it("combines distinct answers when answer wins", () => {
+    expect(
+      mergeVotes([
+        { agent: "claude", result: { type: "answer", content: "The cart module." } },
+        { agent: "codex", result: { type: "answer", content: "The cart module." } },
+        { agent: "gemini", result: { type: "answer", content: "Checkout too." } },
+      ]),
+    ).toEqual({
+      type: "answer",
+      content: "**claude**\n\nThe cart module.\n\n**gemini**\n\nCheckout too.",
+    });
+  });
+
+  it("rejects empty vote lists", () => {
+    expect(() => mergeVotes([])).toThrow("Cannot merge an empty set of votes.");
+  });
+});
+
+describe("describeVote", () => {
+  it("summarizes each result type", () => {
+    expect(describeVote({ agent: "a", result: { type: "question", content: "Why?" } })).toBe(
+      "question (4 chars)",
+    );
+    expect(
+      describeVote({ agent: "a", result: { type: "complete", body: "Spec", title: "T" } }),
+    ).toBe("complete (body 4 chars, with title)");
+    expect(
+      describeVote({
+        agent: "a",
+        result: { type: "split", issues: [{ title: "T", body: "B", labels: [] }] },
+      }),
+    ).toBe("split (1 issue)");
+    expect(
+      describeVote({
+        agent: "a",
+        result: {
+          type: "criteria",
+          criteria: [{ given: "G", when: "W", expected: "E" }],
+          tests: ["T", "U"],
+        },
+      }),
+    ).toBe("criteria (1 criteria, 2 tests)");
+    expect(
+      describeVote({
+        agent: "a",
+        result: { type: "verify", checks: [{ status: "missing", requirement: "R" }] },
+      }),
+    ).toBe("verify (1 check)");
+    expect(describeVote({ agent: "a", result: { type: "answer", content: "Yes." } })).toBe(
+      "answer (4 chars)",
+    );
+    expect(describeVote({ agent: "a", result: { type: "no_change" } })).toBe("no_change");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import { buildUnifiedDiff } from "../src/diff";
+
+const lines = (count: number, start = 1): string =>
+  Array.from({ length: count }, (_, index) => `line ${start + index}`).join("\n");
+
+describe("buildUnifiedDiff", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(buildUnifiedDiff("a\nb", "a\nb")).toBe("");
+    expect(buildUnifiedDiff("a\r\nb", "a\nb")).toBe("");
+  });
+
+  it("renders changed lines with surrounding context", () => {
+    expect(buildUnifiedDiff("one\ntwo\nthree", "one\n2\nthree\nfour")).toBe(
+      ["@@ -1,3 +1,4 @@", " one", "-two", "+2", " three", "+four"].join("\n"),
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = lines(20);
+    const after = before.replace("line 2\n", "line two\n").replace("line 19", "line nineteen");
+    expect(buildUnifiedDiff(before, after)).toBe(
+      [
+        "@@ -1,5 +1,5 @@",
+        " line 1",
+        "-line 2",
+        "+line two",
+        " line 3",
+        " line 4",
+        " line 5",
+        "@@ -16,5 +16,5 @@",
+        " line 16",
+        " line 17",
+        " line 18",
+        "-line 19",
+        "+line nineteen",
+        " line 20",
+      ].join("\n"),
+    );
+  });
+
+  it("numbers insertions into and deletions from empty texts", () => {
+    expect(buildUnifiedDiff("", "a\nb")).toBe("@@ -0,0 +1,2 @@\n+a\n+b");
+    expect(buildUnifiedDiff("a", "")).toBe("@@ -1 +0,0 @@\n-a");
+  });
+
+  it("keeps unchanged lines between nearby changes in one hunk", () => {
+    const before = lines(8);
+    const after = before.replace("line 2", "line B").replace("line 7", "line G");
+    expect(buildUnifiedDiff(before, after).match(/^@@/gm)?.length).toBe(1);
+  });
+});
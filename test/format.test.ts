@@ -0,0 +1,187 @@
+import { describe, expect, it } from "bun:test";
+import {
+  applyCriteriaSection,
+  buildAgentAttribution,
+  buildComment,
+  buildDiffCommentContent,
+  buildDiffDetails,
+  buildErrorComment,
+  buildResetNote,
+  buildUndoContent,
+  buildVerificationReport,
+  stripCommentBoilerplate,
+} from "../src/format";
+
+describe("stripCommentBoilerplate", () => {
+  it("reduces a question comment to its content", () => {
+    expect(stripCommentBoilerplate(buildComment("Which regions?", "alice"))).toBe("Which regions?");
+    expect(stripCommentBoilerplate(buildComment("Which regions?", "alice", false))).toBe(
+      "Which regions?",
+    );
+  });
+
+  it("drops the agent attribution from summaries", () => {
+    const comment = buildComment(
+      `Added retry limits.\n\n${buildAgentAttribution("codex")}`,
+      "alice",
+      false,
+    );
+    expect(stripCommentBoilerplate(comment)).toBe("Added retry limits.");
+  });
+
+  it("keeps the content of error comments", () => {
+    expect(stripCommentBoilerplate(buildErrorComment("https://run", "alice", true))).toBe(
+      "Spec Gardener encountered an error while processing this issue.\n\nPlease check the workflow run for details:\nhttps://run",
+    );
+  });
+
+  it("leaves comments without boilerplate unchanged", () => {
+    expect(stripCommentBoilerplate("Please check --- this")).toBe("Please check --- this");
+  });
+});
+
+describe("buildResetNote", () => {
+  const context = { title: "Title", body: "Body", author: "bob", comments: [] };
+
+  it("describes the chosen revision", () => {
+    expect(
+      buildResetNote({
+        context,
+        revision: { number: 2, total: 5, body: "", editedAt: "2024-01-02", editor: "bob" },
+      }),
+    ).toBe("_Reset to revision 2 of 5, edited 2024-01-02 by bob._");
+  });
+
+  it("explains fallbacks", () => {
+    expect(buildResetNote({ context, problem: 'Unknown reset selector "x".' })).toBe(
+      '_Unknown reset selector "x". Reset from the current description; no earlier revision was found._',
+    );
+  });
+});
+
+describe("buildDiffCommentContent", () => {
+  const base = { number: 1, total: 3, body: "Old line", editedAt: "2024-01-01", editor: "alice" };
+
+  it("renders a fenced diff from the base revision", () => {
+    expect(buildDiffCommentContent({ current: "New line", base })).toBe(
+      "Changes from revision 1 of 3, edited 2024-01-01 by alice to the current description:\n\n```diff\n@@ -1 +1 @@\n-Old line\n+New line\n```",
+    );
+  });
+
+  it("uses a longer fence when the diff contains backticks", () => {
+    expect(buildDiffCommentContent({ current: "```ts\ncode\n```", base })).toContain("````diff\n");
+  });
+
+  it("explains missing bases and unchanged descriptions", () => {
+    expect(buildDiffCommentContent({ current: "Spec" })).toBe(
+      "The description has no earlier revision to compare with.",
+    );
+    expect(
+      buildDiffCommentContent({ current: "Old line", base, problem: "No earlier revision." }),
+    ).toBe(
+      "No earlier revision.\n\nThe current description matches revision 1 of 3, edited 2024-01-01 by alice.",
+    );
+  });
+});
+
+describe("buildDiffDetails", () => {
+  it("wraps the diff in a collapsible block", () => {
+    expect(buildDiffDetails("a", "b")).toBe(
+      "<details>\n<summary>Changes to the description</summary>\n\n```diff\n@@ -1 +1 @@\n-a\n+b\n```\n\n</details>",
+    );
+    expect(buildDiffDetails("a", "a")).toBe("");
+  });
+});
+
+describe("buildUndoContent", () => {
+  const revision = { number: 2, total: 3, body: "Spec", editedAt: "2024-01-02", editor: "bob" };
+
+  it("names the restored revision and title", () => {
+    expect(buildUndoContent({ revision, body: "Spec" })).toBe(
+      "Restored revision 2 of 3, edited 2024-01-02 by bob.",
+    );
+    expect(buildUndoContent({ revision, body: "Spec", title: "Old title" })).toBe(
+      'Restored revision 2 of 3, edited 2024-01-02 by bob. The title was restored to "Old title".',
+    );
+  });
+
+  it("explains why nothing was restored", () => {
+    expect(
+      buildUndoContent({ problem: "The description has no earlier revision to restore." }),
+    ).toBe("The description has no earlier revision to restore. The description was not changed.");
+  });
+});
+
+describe("applyCriteriaSection", () => {
+  const result = {
+    criteria: [{ given: "a cart", when: "the user pays", expected: "an order is created" }],
+    tests: ["Pay for a cart with one item"],
+  };
+  const section = [
+    "<!-- spec-gardener:criteria -->",
+    "## Acceptance Criteria",
+    "",
+    "- [ ] **Given** a cart, **when** the user pays, **then** an order is created",
+    "",
+    "## Test Plan",
+    "",
+    "- [ ] Pay for a cart with one item",
+    "<!-- /spec-gardener:criteria -->",
+  ].join("\n");
+
+  it("appends the section to the spec", () => {
+    expect(applyCriteriaSection("Spec\n", result)).toBe(`Spec\n\n${section}`);
+    expect(applyCriteriaSection("", result)).toBe(section);
+  });
+
+  it("replaces an earlier section in place and keeps ticked items", () => {
+    const previous = section
+      .replace("- [ ] Pay", "- [x] Pay")
+      .replace("- [ ] **Given**", "- [x] **Given**");
+    const updated = applyCriteriaSection(`Intro\n\n${previous}\n\nNotes`, {
+      criteria: [
+        ...result.criteria,
+        { given: "an empty cart", when: "the user pays", expected: "an error is shown" },
+      ],
+      tests: ["Pay for a cart with two items"],
+    });
+    expect(updated).toStartWith("Intro\n\n<!-- spec-gardener:criteria -->");
+    expect(updated).toEndWith("<!-- /spec-gardener:criteria -->\n\nNotes");
+    expect(updated).toContain(
+      "- [x] **Given** a cart, **when** the user pays, **then** an order is created\n- [ ] **Given** an empty cart",
+    );
+    expect(updated).toContain("- [ ] Pay for a cart with two items");
+    expect(updated.match(/spec-gardener:criteria/g)?.length).toBe(2);
+  });
+
+  it("keeps text after a section whose end marker was deleted", () => {
+    const broken = `Intro\n\n${section.replace("\n<!-- /spec-gardener:criteria -->", "")}\n\nUser notes`;
+    const appended = applyCriteriaSection(broken, result);
+    expect(appended.match(/spec-gardener:criteria/g)?.length).toBe(2);
+    expect(appended).toEndWith(`User notes\n\n${section}`);
+    const replaced = applyCriteriaSection(appended, result);
+    expect(replaced).toBe(appended);
+  });
+});
+
+describe("buildVerificationReport", () => {
+  it("groups checks by status with missing requirements first", () => {
+    expect(
+      buildVerificationReport(
+        [
+          { status: "satisfied", requirement: "Pay by card", note: "checkout.ts" },
+          { status: "out_of_scope", requirement: "Renamed the cart page" },
+          { status: "missing", requirement: "Refunds" },
+        ],
+        [{ reference: "acme/shop#12", title: "Checkout", body: "" }],
+      ),
+    ).toBe(
+      [
+        "Checked against acme/shop#12 (Checkout).",
+        "### Missing\n\n- [ ] Refunds",
+        "### Satisfied\n\n- [x] Pay by card - checkout.ts",
+        "### Out of scope\n\n- Renamed the cart page",
+      ].join("\n\n"),
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, spyOn } from "bun:test";
+import core from "@actions/core";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getLabelGuidelinesFile, loadGuidelines } from "../src/guidelines";
+
+const warnings: string[] = [];
+spyOn(core, "warning").mockImplementation((message) => {
+  warnings.push(String(message));
+});
+
+const tempDirs: string[] = [];
+
+const createWorkspace = async (files: Record<string, string>): Promise<string> => {
+  const dir = mkdtempSync(join(tmpdir(), "spec-gardener-guidelines-"));
+  tempDirs.push(dir);
+  for (const [path, contents] of Object.entries(files)) {
+    await Bun.write(join(dir, path), contents);
+  }
+  return dir;
+};
+
+afterEach(() => {
+  warnings.length = 0;
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("getLabelGuidelinesFile", () => {
+  it("turns labels into file names", () => {
+    expect(getLabelGuidelinesFile("bug")).toBe("bug.md");
+    expect(getLabelGuidelinesFile("Good First Issue")).toBe("good-first-issue.md");
+    expect(getLabelGuidelinesFile("area: api/v2")).toBe("area-api-v2.md");
+    expect(getLabelGuidelinesFile("../..")).toBe("");
+  });
+});
+
+describe("loadGuidelines", () => {
+  it("loads the general file and files for matching labels", async () => {
+    const workspace = await createWorkspace({
+      "docs/guidelines.md": "General\n",
+      "docs/guidelines/bug.md": "Bugs",
+      "docs/guidelines/empty.md": "  \n",
+    });
+    expect(await loadGuidelines(workspace, "docs", ["Bug", "empty", "missing"], 1000)).toEqual([
+      { path: "docs/guidelines.md", content: "General" },
+      { path: "docs/guidelines/bug.md", content: "Bugs" },
+    ]);
+  });
+
+  it("returns nothing when no files exist", async () => {
+    const workspace = await createWorkspace({});
+    expect(await loadGuidelines(workspace, "docs", ["bug"], 1000)).toEqual([]);
+  });
+
+  it("truncates content beyond the limit and skips the remaining files", async () => {
+    const workspace = await createWorkspace({
+      "docs/guidelines.md": "a".repeat(30),
+      "docs/guidelines/bug.md": "b".repeat(30),
+      "docs/guidelines/ui.md": "c".repeat(30),
+    });
+    expect(await loadGuidelines(workspace, "docs", ["bug", "ui"], 40)).toEqual([
+      { path: "docs/guidelines.md", content: "a".repeat(30) },
+      { path: "docs/guidelines/bug.md", content: `${"b".repeat(10)}\n[truncated]` },
+    ]);
+    expect(warnings).toEqual([
+      "Truncated guidelines docs/guidelines/bug.md to fit the 40-character limit.",
+      "Skipping guidelines docs/guidelines/ui.md: the 40-character limit is used up.",
+    ]);
+  });
+});
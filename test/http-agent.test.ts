@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import type { Server } from "bun";
+import { requestChatCompletion } from "../src/http-agent";
+
+type RecordedRequest = {
+  path: string;
+  authorization: string | null;
+  body: Record<string, unknown>;
+};
+
+const requests: RecordedRequest[] = [];
+let server: Server<undefined>;
+let baseUrl = "";
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch: async (request) => {
+      const url = new URL(request.url);
+      const body = (await request.json()) as Record<string, unknown>;
+      requests.push({
+        path: url.pathname,
+        authorization: request.headers.get("authorization"),
+        body,
+      });
+      if (body.model === "broken") {
+        return new Response("model not loaded", { status: 503 });
+      }
+      if (body.model === "slow") {
+        await Bun.sleep(200);
+      }
+      return Response.json({
+        choices: [{ message: { role: "assistant", content: '{"type":"no_change"}' } }],
+      });
+    },
+  });
+  baseUrl = `http://localhost:${server.port}/v1`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("requestChatCompletion", () => {
+  it("posts the prompt to the chat completions endpoint", async () => {
+    requests.length = 0;
+    const output = await requestChatCompletion(
+      "local",
+      { baseUrl: `${baseUrl}/`, model: "qwen2.5-coder", temperature: 0.2, jsonMode: true },
+      "Refine the spec.",
+      0,
+    );
+    expect(JSON.parse(output).choices[0].message.content).toBe('{"type":"no_change"}');
+    expect(requests).toEqual([
+      {
+        path: "/v1/chat/completions",
+        authorization: null,
+        body: {
+          model: "qwen2.5-coder",
+          messages: [{ role: "user", content: "Refine the spec." }],
+          temperature: 0.2,
+          response_format: { type: "json_object" },
+        },
+      },
+    ]);
+  });
+
+  it("sends the API key from the configured environment variable", async () => {
+    requests.length = 0;
+    process.env.SPEC_GARDENER_TEST_API_KEY = "sk-local";
+    try {
+      await requestChatCompletion(
+        "local",
+        { baseUrl, model: "qwen2.5-coder", apiKeyEnv: "SPEC_GARDENER_TEST_API_KEY" },
+        "prompt",
+        0,
+      );
+    } finally {
+      delete process.env.SPEC_GARDENER_TEST_API_KEY;
+    }
+    expect(requests[0]?.authorization).toBe("Bearer sk-local");
+    expect(requests[0]?.body.response_format).toBeUndefined();
+  });
+
+  it("fails when the API key variable is missing", async () => {
+    await expect(
+      requestChatCompletion(
+        "local",
+        { baseUrl, model: "qwen2.5-coder", apiKeyEnv: "SPEC_GARDENER_UNSET_API_KEY" },
+        "prompt",
+        0,
+      ),
+    ).rejects.toThrow(
+      'Environment variable SPEC_GARDENER_UNSET_API_KEY for agent "local" is not set or empty.',
+    );
+  });
+
+  it("reports HTTP errors with the response body", async () => {
+    await expect(
+      requestChatCompletion("local", { baseUrl, model: "broken" }, "prompt", 0),
+    ).rejects.toThrow("Provider returned HTTP 503: model not loaded");
+  });
+
+  it("times out slow responses", async () => {
+    await expect(
+      requestChatCompletion("local", { baseUrl, model: "slow" }, "prompt", 50),
+    ).rejects.toThrow("Provider timed out after 50ms.");
+  });
+});
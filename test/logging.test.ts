@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { formatLogBlock, formatParsedResult } from "../src/logging";
+import { formatLogBlock, formatParsedResult, formatToolTrace, formatUsage } from "../src/logging";
 import type { CliResult } from "../src/adapters";
 
 describe("logging helpers", () => {
@@ -22,4 +22,18 @@ describe("logging helpers", () => {
     expect(formatted).toContain("comment: 'Done'");
     expect(formatted).toContain("title: 'Title'");
   });
+
+  it("formats the tool-use trace", () => {
+    expect(formatToolTrace([{ name: "Read", detail: "src/main.ts" }, { name: "Grep" }])).toBe(
+      "[Spec Gardener] Tool use:\n---\n1. Read src/main.ts\n2. Grep\n---",
+    );
+    expect(formatToolTrace([])).toBe("[Spec Gardener] Tool use: (none)");
+  });
+
+  it("formats usage data", () => {
+    expect(formatUsage({ inputTokens: 10, outputTokens: 5, costUsd: 0.01 })).toBe(
+      "[Spec Gardener] Usage: input=10 output=5 cost=$0.0100",
+    );
+    expect(formatUsage({})).toBe("[Spec Gardener] Usage: (unknown)");
+  });
 });
@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
-import { rmSync } from "node:fs";
+import { existsSync, readFileSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { FOOTER } from "../src/constants";
@@ -38,12 +38,16 @@ type OctokitCalls = {
   createComment: Array<Record<string, unknown>>;
   updateIssue: Array<Record<string, unknown>>;
   createReaction: Array<Record<string, unknown>>;
+  createIssue: Array<Record<string, unknown>>;
+  addSubIssue: Array<Record<string, unknown>>;
 };
 
 const octokitCalls: OctokitCalls = {
   createComment: [],
   updateIssue: [],
   createReaction: [],
+  createIssue: [],
+  addSubIssue: [],
 };
 
 type CommentData = { author: string; body: string; createdAt: string };
@@ -53,32 +57,79 @@ type FileData = {
   additions: number;
   deletions: number;
   changes: number;
+  patch?: string;
+};
+
+type RelatedIssueData = {
+  title: string;
+  body: string;
+  state: string;
+  labels: Array<{ name: string }>;
+  pull_request?: object;
+};
+
+type ReviewData = { author: string; state: string; body: string; submittedAt: string };
+type ReviewThreadData = {
+  path: string;
+  line: number | null;
+  isResolved: boolean;
+  comments: CommentData[];
 };
 
 type OctokitState = {
   issueBody: string;
   issueTitle: string;
   issueAuthor: string;
+  // Extra issue fields such as labels, milestone, assignees and type.
+  issueExtra: Record<string, unknown>;
   pullBody: string;
   pullTitle: string;
   pullAuthor: string;
-  userContentEdits: Array<string | null>;
+  // Description edits, newest first; objects add the edit time and editor.
+  userContentEdits: Array<string | null | { body: string; editedAt: string; editor: string }>;
   comments: CommentData[];
+  // Issue events returned by issues.listEvents, such as renames.
+  issueEvents: Array<Record<string, unknown>>;
   files: FileData[];
+  reviews: ReviewData[];
+  reviewThreads: ReviewThreadData[];
+  reviewThreadsError?: Error;
+  // Issues returned by issues.get for "owner/repo#number" keys other than the event item.
+  relatedIssues: Record<string, RelatedIssueData | Error>;
+  // "owner/repo" names repos.get reports as private.
+  privateRepositories: string[];
+  // Issue nodes returned by the closingIssuesReferences query.
+  closingIssues: Array<Record<string, unknown>>;
+  // Parent issue node returned by the sub-issue hierarchy query.
+  issueParent?: Record<string, unknown>;
   graphqlError?: Error;
   createCommentError?: Error;
+  // Thrown by issues.create for every issue after the first.
+  createIssueError?: Error;
 };
 
+const toEditNode = (edit: OctokitState["userContentEdits"][number]) =>
+  edit !== null && typeof edit === "object"
+    ? { body: edit.body, editedAt: edit.editedAt, editor: { login: edit.editor } }
+    : { body: edit };
+
 const octokitState: OctokitState = {
   issueBody: "Issue body",
   issueTitle: "Issue title",
   issueAuthor: "alice",
+  issueExtra: {},
   pullBody: "PR body",
   pullTitle: "PR title",
   pullAuthor: "alice",
   userContentEdits: ["Original description"],
   comments: [],
+  issueEvents: [],
+  closingIssues: [],
   files: [],
+  reviews: [],
+  reviewThreads: [],
+  relatedIssues: {},
+  privateRepositories: [],
   createCommentError: undefined,
 };
 
@@ -86,14 +137,24 @@ const resetOctokitState = () => {
   octokitState.issueBody = "Issue body";
   octokitState.issueTitle = "Issue title";
   octokitState.issueAuthor = "alice";
+  octokitState.issueExtra = {};
   octokitState.pullBody = "PR body";
   octokitState.pullTitle = "PR title";
   octokitState.pullAuthor = "alice";
   octokitState.userContentEdits = ["Original description"];
   octokitState.comments = [];
+  octokitState.issueEvents = [];
+  octokitState.closingIssues = [];
   octokitState.files = [];
+  octokitState.reviews = [];
+  octokitState.reviewThreads = [];
+  octokitState.reviewThreadsError = undefined;
+  octokitState.relatedIssues = {};
+  octokitState.privateRepositories = [];
+  octokitState.issueParent = undefined;
   octokitState.graphqlError = undefined;
   octokitState.createCommentError = undefined;
+  octokitState.createIssueError = undefined;
 };
 
 const streamFromText = (text: string): ReadableStream<Uint8Array> => {
@@ -108,8 +169,11 @@ const streamFromText = (text: string): ReadableStream<Uint8Array> => {
 
 type SpawnConfig = {
   stdout: string;
+  // Per-call stdout overrides, consumed in order before falling back to `stdout`.
+  stdoutSequence?: string[];
   stderr: string;
   exitCode?: number;
+  exitCodeSequence?: number[];
   hang?: boolean;
   stdoutType?: "stream" | "missing" | "number";
   stderrType?: "stream" | "missing" | "number";
@@ -123,17 +187,19 @@ let spawnConfig: SpawnConfig = {
   stderrType: "stream",
 };
 
-const spawnCalls: Array<{ args: string[] }> = [];
+type SpawnCall = { args: string[]; stdin?: unknown; promptFile?: string };
+
+const spawnCalls: SpawnCall[] = [];
 let killCalled = false;
 
 const createSpawnProc = () => {
-  const exitCode = spawnConfig.exitCode ?? 0;
+  const exitCode = spawnConfig.exitCodeSequence?.shift() ?? spawnConfig.exitCode ?? 0;
   const stdoutType = spawnConfig.stdoutType ?? "stream";
   const stderrType = spawnConfig.stderrType ?? "stream";
   return {
     stdout:
       stdoutType === "stream"
-        ? streamFromText(spawnConfig.stdout)
+        ? streamFromText(spawnConfig.stdoutSequence?.shift() ?? spawnConfig.stdout)
         : stdoutType === "number"
           ? 0
           : null,
@@ -150,6 +216,14 @@ const createSpawnProc = () => {
   };
 };
 
+const readPrompt = async (index = 0): Promise<string> => {
+  const call = spawnCalls[index];
+  if (call.stdin instanceof Blob) {
+    return call.stdin.text();
+  }
+  return call.promptFile ?? call.args[call.args.length - 1];
+};
+
 const expectCommentStructure = (body: string, contentMarker: string) => {
   const contentIndex = body.indexOf(contentMarker);
   const separatorIndex = body.indexOf("---");
@@ -170,33 +244,54 @@ mock.module("octokit", () => {
   class Octokit {
     rest: {
       issues: {
-        get: () => Promise<{ data: unknown }>;
+        get: (params: Record<string, unknown>) => Promise<{ data: unknown }>;
         listComments: () => Promise<never>;
+        listEvents: () => Promise<never>;
         createComment: (params: Record<string, unknown>) => Promise<void>;
         update: (params: Record<string, unknown>) => Promise<void>;
+        create: (params: Record<string, unknown>) => Promise<{ data: unknown }>;
+        addSubIssue: (params: Record<string, unknown>) => Promise<void>;
       };
       pulls: {
         get: () => Promise<{ data: unknown }>;
         listFiles: () => Promise<never>;
+        listReviews: () => Promise<never>;
       };
       reactions: {
         createForIssue: (params: Record<string, unknown>) => Promise<void>;
       };
+      repos: {
+        get: (params: Record<string, unknown>) => Promise<{ data: unknown }>;
+      };
     };
     paginate: (fn: unknown) => Promise<unknown[]>;
-    graphql: () => Promise<unknown>;
+    graphql: (query: string) => Promise<unknown>;
     constructor() {
       const issues = {
-        get: async () => ({
-          data: {
-            title: octokitState.issueTitle,
-            body: octokitState.issueBody,
-            user: { login: octokitState.issueAuthor },
-          },
-        }),
+        get: async (params: Record<string, unknown>) => {
+          const key = `${params.owner}/${params.repo}#${params.issue_number}`;
+          const related = octokitState.relatedIssues[key];
+          if (related instanceof Error) {
+            throw related;
+          }
+          if (related) {
+            return { data: related };
+          }
+          return {
+            data: {
+              title: octokitState.issueTitle,
+              body: octokitState.issueBody,
+              user: { login: octokitState.issueAuthor },
+              ...octokitState.issueExtra,
+            },
+          };
+        },
         listComments: async () => {
           throw new Error("paginate should handle listComments");
         },
+        listEvents: async () => {
+          throw new Error("paginate should handle listEvents");
+        },
         createComment: async (params: Record<string, unknown>) => {
           if (octokitState.createCommentError) {
             throw octokitState.createCommentError;
@@ -206,6 +301,17 @@ mock.module("octokit", () => {
         update: async (params: Record<string, unknown>) => {
           octokitCalls.updateIssue.push(params);
         },
+        create: async (params: Record<string, unknown>) => {
+          if (octokitState.createIssueError && octokitCalls.createIssue.length) {
+            throw octokitState.createIssueError;
+          }
+          octokitCalls.createIssue.push(params);
+          const number = 100 + octokitCalls.createIssue.length;
+          return { data: { id: number * 10, number, title: params.title } };
+        },
+        addSubIssue: async (params: Record<string, unknown>) => {
+          octokitCalls.addSubIssue.push(params);
+        },
       };
       const pulls = {
         get: async () => ({
@@ -218,13 +324,23 @@ mock.module("octokit", () => {
         listFiles: async () => {
           throw new Error("paginate should handle listFiles");
         },
+        listReviews: async () => {
+          throw new Error("paginate should handle listReviews");
+        },
       };
       const reactions = {
         createForIssue: async (params: Record<string, unknown>) => {
           octokitCalls.createReaction.push(params);
         },
       };
-      this.rest = { issues, pulls, reactions };
+      const repos = {
+        get: async (params: Record<string, unknown>) => ({
+          data: {
+            private: octokitState.privateRepositories.includes(`${params.owner}/${params.repo}`),
+          },
+        }),
+      };
+      this.rest = { issues, pulls, reactions, repos };
       this.paginate = async (fn: unknown) => {
         if (fn === issues.listComments) {
           return octokitState.comments.map((comment) => ({
@@ -233,6 +349,9 @@ mock.module("octokit", () => {
             created_at: comment.createdAt,
           }));
         }
+        if (fn === issues.listEvents) {
+          return octokitState.issueEvents;
+        }
         if (fn === pulls.listFiles) {
           return octokitState.files.map((file) => ({
             filename: file.filename,
@@ -240,24 +359,71 @@ mock.module("octokit", () => {
             additions: file.additions,
             deletions: file.deletions,
             changes: file.changes,
+            patch: file.patch,
+          }));
+        }
+        if (fn === pulls.listReviews) {
+          return octokitState.reviews.map((review) => ({
+            user: { login: review.author },
+            state: review.state,
+            body: review.body,
+            submitted_at: review.submittedAt,
           }));
         }
         return [];
       };
-      this.graphql = async () => {
+      this.graphql = async (query: string) => {
+        if (query.includes("reviewThreads")) {
+          if (octokitState.reviewThreadsError) {
+            throw octokitState.reviewThreadsError;
+          }
+          return {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes: octokitState.reviewThreads.map((thread) => ({
+                    path: thread.path,
+                    line: thread.line,
+                    originalLine: 7,
+                    isResolved: thread.isResolved,
+                    isOutdated: thread.line === null,
+                    comments: {
+                      nodes: thread.comments.map((comment) => ({
+                        author: { login: comment.author },
+                        body: comment.body,
+                        createdAt: comment.createdAt,
+                      })),
+                    },
+                  })),
+                },
+              },
+            },
+          };
+        }
         if (octokitState.graphqlError) {
           throw octokitState.graphqlError;
         }
+        if (query.includes("closingIssuesReferences")) {
+          return {
+            repository: {
+              pullRequest: { closingIssuesReferences: { nodes: octokitState.closingIssues } },
+            },
+          };
+        }
+        if (query.includes("subIssues")) {
+          return { repository: { issue: { parent: octokitState.issueParent ?? null } } };
+        }
         return {
           repository: {
             issue: {
               userContentEdits: {
-                nodes: octokitState.userContentEdits.map((body) => ({ body })),
+                nodes: octokitState.userContentEdits.map(toEditNode),
               },
             },
             pullRequest: {
               userContentEdits: {
-                nodes: octokitState.userContentEdits.map((body) => ({ body })),
+                nodes: octokitState.userContentEdits.map(toEditNode),
               },
             },
           },
@@ -279,7 +445,15 @@ const writeEvent = async (payload: unknown) => {
   tempFiles.push(path);
 };
 
+const writeConfig = async (contents: string) => {
+  const path = join(tmpdir(), `spec-gardener-config-${Math.random().toString(16).slice(2)}.yml`);
+  await Bun.write(path, contents);
+  coreInputs.set("config_path", path);
+  tempFiles.push(path);
+};
+
 const setDefaultInputs = () => {
+  coreInputs.clear();
   coreInputs.set("agent", "codex");
   coreInputs.set("github_token", "token");
   coreInputs.set("agent_timeout_ms", "120000");
@@ -295,6 +469,8 @@ const resetCalls = () => {
   octokitCalls.createComment = [];
   octokitCalls.updateIssue = [];
   octokitCalls.createReaction = [];
+  octokitCalls.createIssue = [];
+  octokitCalls.addSubIssue = [];
   spawnCalls.length = 0;
   killCalled = false;
 };
@@ -312,8 +488,16 @@ beforeEach(() => {
     stdoutType: "stream",
     stderrType: "stream",
   };
-  Bun.spawn = ((args: string[]) => {
-    spawnCalls.push({ args });
+  Bun.spawn = ((args: string[], options?: { stdin?: unknown }) => {
+    // Prompt files are removed once the provider exits, so capture them while spawning.
+    const promptPath = args
+      .map((arg) => /[^=\s]*spec-gardener-prompt-[0-9a-f]+\.md/.exec(arg)?.[0])
+      .find((path) => path && existsSync(path));
+    spawnCalls.push({
+      args,
+      stdin: options?.stdin,
+      promptFile: promptPath ? readFileSync(promptPath, "utf8") : undefined,
+    });
     return createSpawnProc();
   }) as typeof Bun.spawn;
   process.env.GITHUB_REPOSITORY = "acme/spec-gardener";
@@ -514,6 +698,47 @@ describe("main", () => {
     expect(octokitCalls.createComment.length).toBe(1);
   });
 
+  it("retries with validation errors and posts a labelled error comment", async () => {
+    spawnConfig.stdout = "not-json";
+    await writeEvent({ issue: { number: 50, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(3);
+    const retryPrompt = await readPrompt(1);
+    expect(retryPrompt).toContain("# Previous Response Errors");
+    expect(retryPrompt).toContain("# Previous Response\nnot-json");
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    const body = octokitCalls.createComment[0].body as string;
+    expect(body).toContain("Spec Gardener encountered an error");
+    expect(body).toContain("The agent did not return a valid response after 3 attempts.");
+    expect(body.includes("not-json")).toBe(false);
+    expect(coreCalls.setFailed.length).toBe(1);
+  });
+
+  it("uses the repaired output when a retry succeeds", async () => {
+    spawnConfig.stdoutSequence = ['{"type":"complete"}'];
+    spawnConfig.stdout = JSON.stringify({ type: "complete", body: "Repaired spec" });
+    await writeEvent({ issue: { number: 51, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(2);
+    expect(await readPrompt(1)).toContain(
+      '- "body" must be a non-empty string for type "complete".',
+    );
+    expect(octokitCalls.updateIssue[0].body as string).toContain("Repaired spec");
+    expect(coreCalls.setFailed.length).toBe(0);
+  });
+
+  it("honors max_parse_attempts", async () => {
+    coreInputs.set("max_parse_attempts", "1");
+    spawnConfig.stdout = "not-json";
+    await writeEvent({ issue: { number: 52, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(1);
+    expect(octokitCalls.createComment[0].body as string).toContain("after 1 attempt.");
+  });
+
   it("resets context on /spec-gardener reset", async () => {
     process.env.GITHUB_EVENT_NAME = "issue_comment";
     octokitState.issueBody = "Current spec";
@@ -545,7 +770,7 @@ describe("main", () => {
     });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(prompt).toContain("# Current Specification");
     expect(prompt).toContain("Original spec");
     expect(prompt).not.toContain("Current spec");
@@ -554,6 +779,446 @@ describe("main", () => {
     expect(prompt).not.toContain("Bad date");
   });
 
+  it("resets to the requested revision and reports it", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.issueBody = "Current spec";
+    octokitState.userContentEdits = [
+      { body: `Refined spec\n\n---\n${FOOTER}`, editedAt: "2024-01-03T00:00:00Z", editor: "bot" },
+      { body: "Second draft", editedAt: "2024-01-02T00:00:00Z", editor: "bob" },
+      { body: "First draft", editedAt: "2024-01-01T00:00:00Z", editor: "alice" },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "question", content: "Which users?" });
+    await writeEvent({
+      issue: { number: 85 },
+      comment: { body: "/spec-gardener reset 2", created_at: "2024-01-04T00:00:00Z" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).toContain("# Current Specification\nSecond draft\n");
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Which users?\n\n_Reset to revision 2 of 3, edited 2024-01-02T00:00:00Z by bob._",
+    );
+  });
+
+  it("resets to a timestamp or the last human revision", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.userContentEdits = [
+      { body: `Refined spec\n\n---\n${FOOTER}`, editedAt: "2024-01-03T00:00:00Z", editor: "bot" },
+      { body: "Second draft", editedAt: "2024-01-02T00:00:00Z", editor: "bob" },
+      { body: "First draft", editedAt: "2024-01-01T00:00:00Z", editor: "alice" },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    const { main } = await import("../src/main");
+    await writeEvent({
+      issue: { number: 86 },
+      comment: { body: "/spec-gardener reset 2024-01-01T12:00:00Z", created_at: "2024-01-04" },
+    });
+    await main();
+    expect(await readPrompt()).toContain("# Current Specification\nFirst draft\n");
+    await writeEvent({
+      issue: { number: 86 },
+      comment: { body: "/spec-gardener reset last-human", created_at: "2024-01-04" },
+    });
+    await main();
+    expect(await readPrompt(1)).toContain("# Current Specification\nSecond draft\n");
+    expect(octokitCalls.createComment[1].body as string).toContain(
+      "_Reset to revision 2 of 3, edited 2024-01-02T00:00:00Z by bob._",
+    );
+  });
+
+  it("falls back to the original revision for unknown selectors", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.userContentEdits = ["Edited spec", "Original spec"];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({
+      issue: { number: 87 },
+      comment: { body: "/spec-gardener reset 9", created_at: "2024-01-04T00:00:00Z" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).toContain("# Current Specification\nOriginal spec\n");
+    expect(coreCalls.warning).toContain("Revision 9 does not exist.");
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "_Revision 9 does not exist. Reset to revision 1 of 2._",
+    );
+  });
+
+  it("splits an issue into linked sub-issues on /spec-gardener split", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.issueBody = `Checkout flow\n\n---\n${FOOTER}`;
+    spawnConfig.stdout = JSON.stringify({
+      type: "split",
+      issues: [
+        { title: "Cart page", body: "Cart spec", labels: ["ui"] },
+        { title: "Payment step", body: "Payment spec" },
+      ],
+      comment: "Split by user journey.",
+    });
+    await writeEvent({
+      issue: { number: 88, author_association: "OWNER" },
+      comment: { body: "/spec-gardener split", author_association: "OWNER" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).toContain('{"type":"split","issues"');
+    expect(octokitCalls.createIssue).toEqual([
+      {
+        owner: "acme",
+        repo: "spec-gardener",
+        title: "Cart page",
+        body: `Cart spec\n\n---\n${FOOTER}`,
+        labels: ["ui"],
+      },
+      {
+        owner: "acme",
+        repo: "spec-gardener",
+        title: "Payment step",
+        body: `Payment spec\n\n---\n${FOOTER}`,
+        labels: [],
+      },
+    ]);
+    expect(octokitCalls.addSubIssue).toEqual([
+      { owner: "acme", repo: "spec-gardener", issue_number: 88, sub_issue_id: 1010 },
+      { owner: "acme", repo: "spec-gardener", issue_number: 88, sub_issue_id: 1020 },
+    ]);
+    expect(octokitCalls.updateIssue[0].body).toBe(
+      `Checkout flow\n\n## Sub-issues\n- [ ] #101\n- [ ] #102\n\n---\n${FOOTER}`,
+    );
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Split into 2 sub-issues:\n- #101 Cart page\n- #102 Payment step\n\nSplit by user journey.",
+    );
+  });
+
+  it("reports sub-issues created before a failure", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.createIssueError = new Error("Validation Failed");
+    spawnConfig.stdout = JSON.stringify({
+      type: "split",
+      issues: [
+        { title: "Cart page", body: "Cart spec" },
+        { title: "Payment step", body: "Payment spec" },
+      ],
+    });
+    await writeEvent({
+      issue: { number: 89, author_association: "OWNER" },
+      comment: { body: "/spec-gardener split", author_association: "OWNER" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(octokitCalls.createIssue.length).toBe(1);
+    expect(octokitCalls.updateIssue[0].body as string).toContain("## Sub-issues\n- [ ] #101\n");
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Split into 1 sub-issue:\n- #101 Cart page\n\nStopped after 1 of 2 issues: Validation Failed",
+    );
+  });
+
+  it("rejects split results on runs without the split command", async () => {
+    spawnConfig.stdout = JSON.stringify({
+      type: "split",
+      issues: [{ title: "Cart", body: "Cart spec" }],
+    });
+    await writeEvent({ issue: { number: 103, body: "Split this into one issue per step." } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(3);
+    expect(await readPrompt(1)).toContain(
+      '- "type" must be one of "question", "complete", "no_change".',
+    );
+    expect(octokitCalls.createIssue.length).toBe(0);
+    expect(octokitCalls.addSubIssue.length).toBe(0);
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "The agent did not return a valid response after 3 attempts.",
+    );
+  });
+
+  it("refuses /spec-gardener split from untrusted commenters", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    await writeEvent({
+      issue: { number: 105, author_association: "NONE" },
+      comment: { body: "/spec-gardener split", author_association: "NONE" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.createIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "`/spec-gardener split` is limited to owners, members and collaborators of the repository.",
+    );
+  });
+
+  it("declines to split pull requests", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    await writeEvent({
+      issue: { number: 90, pull_request: {} },
+      comment: { body: "/spec-gardener split" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "`/spec-gardener split` only works on issues.",
+    );
+  });
+
+  it("posts a diff of the description on /spec-gardener diff", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.issueBody = `Refined spec\nWith details\n\n---\n${FOOTER}`;
+    octokitState.userContentEdits = [
+      {
+        body: `Refined spec\nWith details\n\n---\n${FOOTER}`,
+        editedAt: "2024-01-03",
+        editor: "bot",
+      },
+      { body: `Draft spec\n\n---\n${FOOTER}`, editedAt: "2024-01-02", editor: "bot" },
+      { body: "Rough idea", editedAt: "2024-01-01", editor: "alice" },
+    ];
+    const { main } = await import("../src/main");
+    await writeEvent({ issue: { number: 91 }, comment: { body: "/spec-gardener diff" } });
+    await main();
+    await writeEvent({ issue: { number: 91 }, comment: { body: "/spec-gardener diff previous" } });
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Changes from revision 1 of 3, edited 2024-01-01 by alice to the current description:\n\n```diff\n@@ -1 +1,2 @@\n-Rough idea\n+Refined spec\n+With details\n```",
+    );
+    expect(octokitCalls.createComment[1].body as string).toContain(
+      "Changes from revision 2 of 3, edited 2024-01-02 by bot to the current description:\n\n```diff\n@@ -1 +1,2 @@\n-Draft spec\n+Refined spec\n+With details\n```",
+    );
+  });
+
+  it("embeds a diff in completion comments with diff_in_comment", async () => {
+    coreInputs.set("diff_in_comment", "true");
+    octokitState.issueBody = "Old spec";
+    spawnConfig.stdout = JSON.stringify({ type: "complete", body: "New spec", comment: "Done." });
+    await writeEvent({ issue: { number: 92, body: "Old spec" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Done.\n\n<details>\n<summary>Changes to the description</summary>\n\n```diff\n@@ -1 +1 @@\n-Old spec\n+New spec\n```\n\n</details>",
+    );
+  });
+
+  it("restores the previous description and title on /spec-gardener undo", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.userContentEdits = [
+      { body: `Bad rewrite\n\n---\n${FOOTER}`, editedAt: "2024-01-03T00:00:00Z", editor: "bot" },
+      { body: `Good spec\n\n---\n${FOOTER}`, editedAt: "2024-01-02T00:00:00Z", editor: "bot" },
+      { body: "Rough idea", editedAt: "2024-01-01T00:00:00Z", editor: "alice" },
+    ];
+    octokitState.issueEvents = [
+      {
+        event: "renamed",
+        created_at: "2024-01-02T00:00:00Z",
+        rename: { from: "Idea", to: "Good" },
+      },
+      { event: "labeled", created_at: "2024-01-02T12:00:00Z" },
+      { event: "renamed", created_at: "2024-01-03T00:00:00Z", rename: { from: "Good", to: "Bad" } },
+    ];
+    const { main } = await import("../src/main");
+    await writeEvent({
+      issue: { number: 93, author_association: "OWNER" },
+      comment: { body: "/spec-gardener undo", author_association: "MEMBER" },
+    });
+    await main();
+    await writeEvent({
+      issue: { number: 93, author_association: "OWNER" },
+      comment: { body: "/spec-gardener undo 2", author_association: "MEMBER" },
+    });
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.updateIssue).toEqual([
+      {
+        owner: "acme",
+        repo: "spec-gardener",
+        issue_number: 93,
+        body: `Good spec\n\n---\n${FOOTER}`,
+        title: "Good",
+      },
+      { owner: "acme", repo: "spec-gardener", issue_number: 93, body: "Rough idea", title: "Idea" },
+    ]);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      'Restored revision 2 of 3, edited 2024-01-02T00:00:00Z by bot. The title was restored to "Good".',
+    );
+    expect(octokitCalls.createComment[1].body as string).toContain(
+      'Restored revision 1 of 3, edited 2024-01-01T00:00:00Z by alice. The title was restored to "Idea".',
+    );
+  });
+
+  it("leaves the description alone when there is nothing to undo", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.userContentEdits = [`Spec\n\n---\n${FOOTER}`, "Original"];
+    const { main } = await import("../src/main");
+    await writeEvent({
+      issue: { number: 94, author_association: "OWNER" },
+      comment: { body: "/spec-gardener undo 3", author_association: "MEMBER" },
+    });
+    await main();
+    await writeEvent({
+      issue: { number: 94, author_association: "OWNER" },
+      comment: { body: "/spec-gardener undo last", author_association: "MEMBER" },
+    });
+    await main();
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Cannot undo 3 revisions; the description has only 1 earlier revision(s). The description was not changed.",
+    );
+    expect(octokitCalls.createComment[1].body as string).toContain(
+      'Unknown undo count "last"; expected a number of revisions. The description was not changed.',
+    );
+  });
+
+  it("refuses /spec-gardener undo from untrusted commenters", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.userContentEdits = [`Spec\n\n---\n${FOOTER}`, "Original"];
+    await writeEvent({
+      issue: { number: 104, author_association: "OWNER" },
+      comment: { body: "/spec-gardener undo", author_association: "NONE" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "`/spec-gardener undo` is limited to owners, members and collaborators of the repository.",
+    );
+  });
+
+  it("answers /spec-gardener ask in a comment without editing the spec", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    spawnConfig.stdout = JSON.stringify({
+      type: "answer",
+      content: "The cart and checkout modules.",
+    });
+    await writeEvent({
+      issue: { number: 95 },
+      comment: { body: "/spec-gardener ask Which modules\nwould this touch?" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain('{"type":"answer","content":"..."}');
+    expect(prompt).toContain("# Question\nWhich modules\nwould this touch?");
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toStartWith(
+      "The cart and checkout modules.\n\n---",
+    );
+  });
+
+  it("never updates the spec for /spec-gardener ask", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    spawnConfig.stdout = JSON.stringify({ type: "complete", body: "Rewritten spec" });
+    await writeEvent({
+      issue: { number: 96 },
+      comment: { body: "/spec-gardener ask Is this done?" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(3);
+    expect(await readPrompt(1)).toContain('- "type" must be one of "answer".');
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "The agent did not return an answer to the question after 3 attempts.",
+    );
+  });
+
+  it("asks for a question when /spec-gardener ask has none", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    await writeEvent({ issue: { number: 97 }, comment: { body: "/spec-gardener ask" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Add your question after the command",
+    );
+  });
+
+  it("adds acceptance criteria to the spec on /spec-gardener criteria", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.issueBody = `Checkout spec\n\n---\n${FOOTER}`;
+    spawnConfig.stdout = JSON.stringify({
+      type: "criteria",
+      criteria: [{ given: "a cart", when: "the user pays", expected: "an order is created" }],
+      tests: ["Pay for a cart with one item"],
+    });
+    await writeEvent({ issue: { number: 98 }, comment: { body: "/spec-gardener criteria" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).toContain('{"type":"criteria"');
+    expect(octokitCalls.updateIssue[0].body).toBe(
+      `Checkout spec\n\n<!-- spec-gardener:criteria -->\n## Acceptance Criteria\n\n- [ ] **Given** a cart, **when** the user pays, **then** an order is created\n\n## Test Plan\n\n- [ ] Pay for a cart with one item\n<!-- /spec-gardener:criteria -->\n\n---\n${FOOTER}`,
+    );
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Acceptance criteria (1) and test plan (1) have been updated.",
+    );
+  });
+
+  it("verifies a pull request against the issues it closes", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    octokitState.closingIssues = [
+      {
+        number: 12,
+        title: "Checkout",
+        body: `Pay by card.\n\n---\n${FOOTER}`,
+        repository: { nameWithOwner: "acme/spec-gardener" },
+      },
+    ];
+    spawnConfig.stdout = JSON.stringify({
+      type: "verify",
+      checks: [
+        { status: "satisfied", requirement: "Pay by card" },
+        { status: "missing", requirement: "Show a receipt" },
+      ],
+    });
+    await writeEvent({
+      issue: { number: 99, pull_request: {} },
+      comment: { body: "/spec-gardener verify" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain("# Linked Issues\n## acme/spec-gardener#12: Checkout\nPay by card.\n");
+    expect(prompt).toContain("# Changed Files");
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "Checked against acme/spec-gardener#12 (Checkout).\n\n### Missing\n\n- [ ] Show a receipt\n\n### Satisfied\n\n- [x] Pay by card",
+    );
+  });
+
+  it("verifies pull_request events with verify_pull_requests", async () => {
+    coreInputs.set("verify_pull_requests", "true");
+    process.env.GITHUB_EVENT_NAME = "pull_request";
+    octokitState.closingIssues = [{ number: 12, title: "Checkout", body: "Pay by card." }];
+    spawnConfig.stdout = JSON.stringify({
+      type: "verify",
+      checks: [{ status: "satisfied", requirement: "Pay by card" }],
+    });
+    await writeEvent({ pull_request: { number: 100, body: `PR body\n\n---\n${FOOTER}` } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).toContain('{"type":"verify"');
+    expect(octokitCalls.updateIssue.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain("- [x] Pay by card");
+  });
+
+  it("does not verify without linked issues or on issues", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    const { main } = await import("../src/main");
+    await writeEvent({
+      issue: { number: 101, pull_request: {} },
+      comment: { body: "/spec-gardener verify" },
+    });
+    await main();
+    await writeEvent({ issue: { number: 102 }, comment: { body: "/spec-gardener verify" } });
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(octokitCalls.createComment[0].body as string).toContain(
+      "This pull request does not close any issues",
+    );
+    expect(octokitCalls.createComment[1].body as string).toContain(
+      "`/spec-gardener verify` only works on pull requests.",
+    );
+  });
+
   it("keeps context on reset with invalid created_at", async () => {
     process.env.GITHUB_EVENT_NAME = "issue_comment";
     octokitState.issueBody = "Current spec";
@@ -568,7 +1233,7 @@ describe("main", () => {
     });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(prompt).toContain("Current spec");
     expect(prompt).not.toContain("Original spec\n\n---");
   });
@@ -586,7 +1251,7 @@ describe("main", () => {
     });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(prompt).toContain("Current spec");
     expect(prompt).not.toContain("Original spec\n\n---");
   });
@@ -607,7 +1272,7 @@ describe("main", () => {
     await writeEvent({ pull_request: { number: 19, body: "Hi" } });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(prompt).toContain("# Changed Files");
     expect(prompt).toContain("src/main.ts");
     expect(prompt).toContain("PR comment");
@@ -627,7 +1292,7 @@ describe("main", () => {
     });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(coreCalls.warning.some((msg) => msg.includes("Failed to fetch"))).toBe(true);
     expect(prompt).toContain("Fallback body");
   });
@@ -638,7 +1303,7 @@ describe("main", () => {
     await writeEvent({ issue: { number: 22, body: "Hi" } });
     const { main } = await import("../src/main");
     await main();
-    const prompt = spawnCalls[0].args[spawnCalls[0].args.length - 1];
+    const prompt = await readPrompt();
     expect(prompt).toContain("Spec body");
     expect(prompt).not.toContain("🤖 Generated by Spec Gardener");
   });
@@ -791,4 +1456,761 @@ describe("main", () => {
     const body = octokitCalls.createComment[0].body as string;
     expectCommentStructure(body, "@alice Updated successfully");
   });
+
+  it("runs custom agents declared in the config file", async () => {
+    coreInputs.set("agent", "our-agent");
+    await writeConfig("agents:\n  our-agent:\n    command: our-wrapper\n    args: ['--json']\n");
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 42, body: "Hi", author_association: "OWNER" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(1);
+    expect(spawnCalls[0].args.slice(0, 2)).toEqual(["our-wrapper", "--json"]);
+    expect(octokitCalls.createReaction.length).toBe(1);
+  });
+
+  it("fails before running the agent when the config file is invalid", async () => {
+    await writeConfig("agents:\n  broken:\n    args: []\n");
+    await writeEvent({ issue: { number: 43, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(coreCalls.setFailed[0]).toContain('one of "command", "package" or "http" is required');
+  });
+
+  it("fails when an explicit config path does not exist", async () => {
+    coreInputs.set("config_path", join(tmpdir(), "spec-gardener-missing.yml"));
+    await writeEvent({ issue: { number: 44, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(coreCalls.setFailed[0]).toContain("Spec Gardener config not found");
+  });
+
+  it("pipes the prompt to built-in agents over stdin", async () => {
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 45, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls[0].args).toEqual([
+      "bunx",
+      "@openai/codex@0.87.0",
+      "exec",
+      "--json",
+      "-",
+      "--sandbox",
+      "read-only",
+    ]);
+    expect(await readPrompt()).toContain("# Issue Title");
+  });
+
+  it("delivers large prompts over stdin without touching argv", async () => {
+    coreInputs.set("context_budget", "0");
+    const longBody = "x".repeat(2048);
+    octokitState.comments = Array.from({ length: 500 }, (_, index) => ({
+      author: "bob",
+      body: `Comment ${index} ${longBody}`,
+      createdAt: "2024-01-01T00:00:00Z",
+    }));
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 46, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt.length).toBeGreaterThan(1_000_000);
+    expect(prompt).toContain("Comment 499");
+    expect(spawnCalls[0].args.join(" ").length).toBeLessThan(200);
+  });
+
+  it("writes large prompts to a temporary file for file transport", async () => {
+    coreInputs.set("context_budget", "0");
+    coreInputs.set("agent", "filer");
+    await writeConfig(
+      "agents:\n  filer:\n    command: filer\n    args: ['--input={prompt_file}']\n    prompt: file\n",
+    );
+    octokitState.comments = Array.from({ length: 500 }, (_, index) => ({
+      author: "bob",
+      body: `Comment ${index} ${"y".repeat(2048)}`,
+      createdAt: "2024-01-01T00:00:00Z",
+    }));
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 47, body: "Hi", author_association: "OWNER" } });
+    const { main } = await import("../src/main");
+    await main();
+    const [cmd, inputArg] = spawnCalls[0].args;
+    expect(cmd).toBe("filer");
+    expect(inputArg.startsWith("--input=")).toBe(true);
+    const prompt = await readPrompt();
+    expect(prompt).toContain("Comment 499");
+    expect(existsSync(inputArg.slice("--input=".length))).toBe(false);
+  });
+
+  it("appends the prompt to argv for argv transport", async () => {
+    coreInputs.set("agent", "legacy");
+    await writeConfig("agents:\n  legacy:\n    command: legacy\n    prompt: argv\n");
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 48, body: "Hi", author_association: "OWNER" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls[0].args[0]).toBe("legacy");
+    expect(spawnCalls[0].args[1]).toContain("# Issue Title");
+    expect(spawnCalls[0].stdin).toBe("ignore");
+  });
+
+  it("parses native agent output and logs tool use and usage", async () => {
+    spawnConfig.stdout = [
+      JSON.stringify({ type: "thread.started", thread_id: "t" }),
+      JSON.stringify({
+        type: "item.completed",
+        item: { type: "command_execution", command: "rg spec" },
+      }),
+      JSON.stringify({
+        type: "item.completed",
+        item: { type: "agent_message", text: '{"type":"question","content":"Which API?"}' },
+      }),
+      JSON.stringify({ type: "turn.completed", usage: { input_tokens: 7, output_tokens: 3 } }),
+    ].join("\n");
+    await writeEvent({ issue: { number: 49, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(octokitCalls.createComment[0].body as string).toContain("Which API?");
+    expect(coreCalls.info.some((msg) => msg.includes("1. shell rg spec"))).toBe(true);
+    expect(coreCalls.info.some((msg) => msg.includes("Usage: input=7 cached=0 output=3"))).toBe(
+      true,
+    );
+  });
+
+  it("falls back to the next agent when one fails", async () => {
+    coreInputs.set("agent", "codex, gemini");
+    spawnConfig.exitCodeSequence = [2];
+    spawnConfig.stderr = "rate limited";
+    spawnConfig.stdout = JSON.stringify({
+      response: JSON.stringify({ type: "complete", body: "New spec", comment: "Updated" }),
+    });
+    await writeEvent({ issue: { number: 53, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(2);
+    expect(spawnCalls[1].args[1]).toBe("@google/gemini-cli@0.26.0");
+    expect(coreCalls.warning.some((msg) => msg.includes('Falling back to agent "gemini"'))).toBe(
+      true,
+    );
+    expect(coreCalls.info).toContain('Answered by agent "gemini".');
+    const body = octokitCalls.createComment[0].body as string;
+    expect(body).toContain("Updated\n\n_Answered by `gemini`._");
+    expect(coreCalls.setFailed.length).toBe(0);
+  });
+
+  it("falls back after repeated parse failures", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("max_parse_attempts", "1");
+    spawnConfig.stdoutSequence = ["not-json"];
+    spawnConfig.stdout = JSON.stringify({ response: JSON.stringify({ type: "no_change" }) });
+    await writeEvent({ issue: { number: 54, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(2);
+    expect(octokitCalls.createReaction.length).toBe(1);
+  });
+
+  it("fails when every agent in the chain fails", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    spawnConfig.exitCode = 2;
+    spawnConfig.stderr = "boom";
+    await writeEvent({ issue: { number: 55, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(2);
+    expect(coreCalls.error.some((msg) => msg.includes("No fallback agents remain"))).toBe(true);
+    expect(octokitCalls.createComment.length).toBe(1);
+    expect(coreCalls.setFailed.length).toBe(1);
+  });
+
+  it("rejects unknown agents in the chain before running any", async () => {
+    coreInputs.set("agent", "codex,unknown");
+    await writeEvent({ issue: { number: 56, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(0);
+    expect(coreCalls.setFailed[0]).toContain('Unknown agent "unknown"');
+  });
+
+  it("does not attribute results for a single agent", async () => {
+    spawnConfig.stdout = JSON.stringify({ type: "complete", body: "New spec", comment: "Done" });
+    await writeEvent({ issue: { number: 57, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect((octokitCalls.createComment[0].body as string).includes("Answered by")).toBe(false);
+  });
+
+  it("merges consensus votes deterministically", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_strategy", "consensus");
+    spawnConfig.stdoutSequence = [
+      JSON.stringify({ type: "question", content: "Which API?" }),
+      JSON.stringify({ response: JSON.stringify({ type: "question", content: "Who uses it?" }) }),
+    ];
+    await writeEvent({ issue: { number: 58, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(2);
+    expect(coreCalls.info).toContain('Consensus vote from agent "codex": question (10 chars)');
+    expect(coreCalls.info).toContain('Consensus vote from agent "gemini": question (12 chars)');
+    const body = octokitCalls.createComment[0].body as string;
+    expect(body).toContain("**codex**\n\nWhich API?\n\n**gemini**\n\nWho uses it?");
+  });
+
+  it("asks the judge agent to decide between consensus votes", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_strategy", "consensus");
+    coreInputs.set("consensus_judge", "claude");
+    spawnConfig.stdoutSequence = [
+      JSON.stringify({ type: "no_change" }),
+      JSON.stringify({ response: JSON.stringify({ type: "complete", body: "Gemini spec" }) }),
+      JSON.stringify({
+        type: "result",
+        result: JSON.stringify({ type: "complete", body: "Judged spec" }),
+      }),
+    ];
+    await writeEvent({ issue: { number: 59, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(3);
+    expect(spawnCalls[2].args[1]).toBe("@anthropic-ai/claude-code@2.1.1");
+    const judgePrompt = await readPrompt(2);
+    expect(judgePrompt).toContain("# Candidate Results");
+    expect(judgePrompt).toContain("Gemini spec");
+    expect(octokitCalls.updateIssue[0].body as string).toContain("Judged spec");
+    expect(
+      coreCalls.info.some((msg) => msg.startsWith('Consensus decided by judge "claude"')),
+    ).toBe(true);
+  });
+
+  it("merges votes when the judge fails", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_strategy", "consensus");
+    coreInputs.set("consensus_judge", "claude");
+    coreInputs.set("max_parse_attempts", "1");
+    spawnConfig.stdoutSequence = [
+      JSON.stringify({ type: "complete", body: "Short" }),
+      JSON.stringify({ response: JSON.stringify({ type: "complete", body: "Longer spec" }) }),
+      "not-json",
+    ];
+    await writeEvent({ issue: { number: 60, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.warning.some((msg) => msg.startsWith('Judge "claude" failed'))).toBe(true);
+    expect(octokitCalls.updateIssue[0].body as string).toContain("Longer spec");
+  });
+
+  it("continues consensus when one agent fails", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_strategy", "consensus");
+    spawnConfig.exitCodeSequence = [2, 0];
+    spawnConfig.stdout = JSON.stringify({ response: JSON.stringify({ type: "no_change" }) });
+    await writeEvent({ issue: { number: 61, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.warning.some((msg) => msg.includes('agent "codex" failed'))).toBe(true);
+    expect(octokitCalls.createReaction.length).toBe(1);
+  });
+
+  it("logs the pinned version of each agent", async () => {
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 62, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.info).toContain('Agent "codex" resolved to @openai/codex@0.87.0.');
+  });
+
+  it("applies agent_version overrides", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_version", "codex=0.80.0");
+    await writeConfig("versions:\n  gemini: 0.25.0\n");
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 63, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls[0].args[1]).toBe("@openai/codex@0.80.0");
+    expect(coreCalls.info).toContain('Agent "gemini" resolved to @google/gemini-cli@0.25.0.');
+  });
+
+  it("probes the executed version when a dist-tag is requested", async () => {
+    coreInputs.set("agent_version", "latest");
+    spawnConfig.stdoutSequence = ["codex-cli 0.99.0\n"];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 64, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls[0].args).toEqual(["bunx", "@openai/codex@latest", "--version"]);
+    expect(coreCalls.info).toContain(
+      'Agent "codex" resolved to @openai/codex@latest (version codex-cli 0.99.0).',
+    );
+    expect(spawnCalls[1].args[1]).toBe("@openai/codex@latest");
+  });
+
+  it("warns about bare versions when several agents are configured", async () => {
+    coreInputs.set("agent", "codex,gemini");
+    coreInputs.set("agent_version", "1.0.0");
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 65, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(
+      coreCalls.warning.some((msg) => msg.includes('Ignoring agent_version value "1.0.0"')),
+    ).toBe(true);
+  });
+
+  it("sends the prompt to HTTP endpoint agents without spawning", async () => {
+    const prompts: string[] = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const body = (await request.json()) as { messages: Array<{ content: string }> };
+        prompts.push(body.messages[0].content);
+        return Response.json({
+          choices: [{ message: { content: '{"type":"question","content":"Which model?"}' } }],
+          usage: { prompt_tokens: 12, completion_tokens: 4 },
+        });
+      },
+    });
+    const { port } = server;
+    try {
+      coreInputs.set("agent", "local");
+      await writeConfig(
+        `agents:\n  local:\n    http:\n      base_url: http://localhost:${port}/v1\n      model: tiny\n`,
+      );
+      await writeEvent({ issue: { number: 66, body: "Hi" } });
+      const { main } = await import("../src/main");
+      await main();
+    } finally {
+      server.stop(true);
+    }
+    expect(spawnCalls.length).toBe(0);
+    expect(prompts[0]).toContain("# Issue Title");
+    expect(octokitCalls.createComment[0].body as string).toContain("Which model?");
+    expect(coreCalls.info).toContain(
+      `Agent "local" resolved to tiny via http://localhost:${port}/v1.`,
+    );
+    expect(coreCalls.info.some((msg) => msg.includes("Usage: input=12"))).toBe(true);
+  });
+
+  it("records agent responses and replays them offline", async () => {
+    const fixturesDir = join(
+      tmpdir(),
+      `spec-gardener-fixtures-${Math.random().toString(16).slice(2)}`,
+    );
+    try {
+      coreInputs.set("fixtures_dir", fixturesDir);
+      coreInputs.set("record_fixtures", "true");
+      spawnConfig.stdout = JSON.stringify({ type: "question", content: "Recorded question?" });
+      await writeEvent({ issue: { number: 67, body: "Hi" } });
+      const { main } = await import("../src/main");
+      await main();
+      expect(spawnCalls.length).toBe(1);
+      expect(coreCalls.info.some((msg) => msg.startsWith("Recorded replay fixture"))).toBe(true);
+
+      resetCalls();
+      coreInputs.set("agent", "replay");
+      coreInputs.set("record_fixtures", "");
+      await main();
+      expect(spawnCalls.length).toBe(0);
+      expect(octokitCalls.createComment[0].body as string).toContain("Recorded question?");
+    } finally {
+      rmSync(fixturesDir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails the replay agent when no fixture matches", async () => {
+    coreInputs.set("agent", "replay");
+    coreInputs.set("fixtures_dir", join(tmpdir(), "spec-gardener-no-fixtures"));
+    await writeEvent({ issue: { number: 68, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.setFailed[0]).toContain("No replay fixture for prompt");
+  });
+
+  it("grants full tool access to collaborators by default", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({
+      issue: { number: 69, body: "Hi", author_association: "MEMBER" },
+      comment: { body: "/spec-gardener", author_association: "OWNER" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.info).toContain('Using the "full" permission profile.');
+    expect(spawnCalls[0].args).toContain("--dangerously-bypass-approvals-and-sandbox");
+  });
+
+  it("restricts tools when a collaborator comments on an outside issue", async () => {
+    process.env.GITHUB_EVENT_NAME = "issue_comment";
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({
+      issue: { number: 70, body: "Hi", author_association: "NONE" },
+      comment: { body: "/spec-gardener", author_association: "OWNER" },
+    });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.info).toContain('Using the "read-only" permission profile.');
+    expect(spawnCalls[0].args).not.toContain("--dangerously-bypass-approvals-and-sandbox");
+  });
+
+  it("applies an explicit permission_profile", async () => {
+    coreInputs.set("agent", "claude");
+    coreInputs.set("permission_profile", "read-search");
+    spawnConfig.stdout = JSON.stringify({ type: "result", result: '{"type":"no_change"}' });
+    await writeEvent({ issue: { number: 71, body: "Hi", author_association: "OWNER" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls[0].args.slice(-2)).toEqual([
+      "--allowed-tools",
+      "Read,Glob,Grep,WebSearch,WebFetch",
+    ]);
+  });
+
+  it("skips agents without flags for a restricted permission profile", async () => {
+    coreInputs.set("agent", "our-agent,careful");
+    await writeConfig(
+      "agents:\n  our-agent:\n    command: our-wrapper\n    args: ['--yolo']\n    permissions:\n      full: []\n  careful:\n    command: careful\n    permissions:\n      read-only: []\n",
+    );
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 72, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(spawnCalls.length).toBe(1);
+    expect(spawnCalls[0].args).toEqual(["careful"]);
+    expect(coreCalls.warning).toContain(
+      'Agent "our-agent" does not declare flags for the "read-only" permission profile and will not run.',
+    );
+    expect(
+      coreCalls.warning.some((msg) =>
+        msg.includes('Agent "our-agent" failed: Agent "our-agent" does not declare flags'),
+      ),
+    ).toBe(true);
+  });
+
+  it("adds referenced issues and pull requests to the prompt", async () => {
+    octokitState.issueBody = "Same as #412 but for invoices. Broken: acme/private#1";
+    octokitState.comments = [
+      {
+        author: "bob",
+        body: "Related: https://github.example/acme/spec-gardener/pull/9",
+        createdAt: "",
+      },
+    ];
+    octokitState.relatedIssues = {
+      "acme/spec-gardener#412": {
+        title: "Export orders",
+        body: "Orders export. Follows #300.",
+        state: "closed",
+        labels: [{ name: "export" }],
+      },
+      "acme/spec-gardener#9": {
+        title: "CSV writer",
+        body: "Adds a writer.",
+        state: "open",
+        labels: [],
+        pull_request: {},
+      },
+      "acme/private#1": new Error("Not Found"),
+      "acme/spec-gardener#300": { title: "Nested", body: "", state: "open", labels: [] },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 73, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain("## acme/spec-gardener#412 (issue, closed): Export orders");
+    expect(prompt).toContain("## acme/spec-gardener#9 (pull request, open): CSV writer");
+    expect(prompt).not.toContain("Nested");
+    expect(
+      coreCalls.warning.some((msg) => msg.includes("Failed to fetch related item acme/private#1")),
+    ).toBe(true);
+  });
+
+  it("skips related items in private repositories when this one is public", async () => {
+    octokitState.issueBody = "Blocked by acme/vault#5 and acme/tools#6.";
+    octokitState.privateRepositories = ["acme/vault"];
+    octokitState.relatedIssues = {
+      "acme/vault#5": { title: "Secret plan", body: "Internal", state: "open", labels: [] },
+      "acme/tools#6": { title: "Public tool", body: "", state: "open", labels: [] },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 106, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).not.toContain("Secret plan");
+    expect(prompt).toContain("## acme/tools#6 (issue, open): Public tool");
+    expect(coreCalls.warning).toContain(
+      "Skipping related item acme/vault#5: its repository is private and acme/spec-gardener is public.",
+    );
+  });
+
+  it("follows references up to related_items_depth within related_items_limit", async () => {
+    coreInputs.set("related_items_depth", "2");
+    coreInputs.set("related_items_limit", "2");
+    octokitState.issueBody = "See #412 and #413.";
+    octokitState.relatedIssues = {
+      "acme/spec-gardener#412": {
+        title: "First",
+        body: "Follows #300.",
+        state: "open",
+        labels: [],
+      },
+      "acme/spec-gardener#413": { title: "Second", body: "", state: "open", labels: [] },
+      "acme/spec-gardener#300": { title: "Nested", body: "", state: "open", labels: [] },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 74, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain("acme/spec-gardener#413 (issue, open): Second");
+    expect(prompt).not.toContain("Nested");
+
+    resetCalls();
+    coreInputs.set("related_items_limit", "5");
+    await main();
+    expect(await readPrompt()).toContain("acme/spec-gardener#300 (issue, open): Nested");
+  });
+
+  it("skips related items when related_items_limit is zero", async () => {
+    coreInputs.set("related_items_limit", "0");
+    octokitState.issueBody = "Same as #412.";
+    octokitState.relatedIssues = {
+      "acme/spec-gardener#412": { title: "Export orders", body: "", state: "open", labels: [] },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 75, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(await readPrompt()).not.toContain("# Related Items");
+  });
+
+  it("includes patch hunks for pull requests within diff_budget", async () => {
+    process.env.GITHUB_EVENT_NAME = "pull_request";
+    coreInputs.set("diff_budget", "300");
+    const lockPatch = `@@ -1 +1 @@\n${"+lock\n".repeat(80)}`;
+    octokitState.files = [
+      {
+        filename: "bun.lock",
+        status: "modified",
+        additions: 80,
+        deletions: 0,
+        changes: 80,
+        patch: lockPatch,
+      },
+      {
+        filename: "src/main.ts",
+        status: "modified",
+        additions: 1,
+        deletions: 1,
+        changes: 2,
+        patch: "@@ -1 +1 @@\n-old line\n+new line",
+      },
+      { filename: "logo.png", status: "added", additions: 0, deletions: 0, changes: 0 },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ pull_request: { number: 76, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain("# Diff\n## bun.lock\n```diff\n");
+    expect(prompt).toContain("## src/main.ts\n```diff\n@@ -1 +1 @@\n-old line\n+new line\n```");
+    expect(prompt).toContain("[truncated: diff budget exceeded]");
+    expect(prompt).not.toContain("## logo.png");
+  });
+
+  it("omits patches when diff_budget is zero", async () => {
+    process.env.GITHUB_EVENT_NAME = "pull_request";
+    coreInputs.set("diff_budget", "0");
+    octokitState.files = [
+      {
+        filename: "src/main.ts",
+        status: "modified",
+        additions: 1,
+        deletions: 0,
+        changes: 1,
+        patch: "@@ +x",
+      },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ pull_request: { number: 77, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain("# Changed Files");
+    expect(prompt).not.toContain("# Diff");
+  });
+
+  it("includes reviews and review threads for pull requests", async () => {
+    process.env.GITHUB_EVENT_NAME = "pull_request";
+    octokitState.reviews = [
+      {
+        author: "rita",
+        state: "CHANGES_REQUESTED",
+        body: "Spec misses errors.",
+        submittedAt: "2024-03-01",
+      },
+      { author: "sam", state: "COMMENTED", body: "", submittedAt: "2024-03-02" },
+    ];
+    octokitState.reviewThreads = [
+      {
+        path: "src/api.ts",
+        line: 12,
+        isResolved: false,
+        comments: [
+          { author: "rita", body: "What about 404?", createdAt: "2024-03-01" },
+          { author: "alice", body: "Will add.", createdAt: "2024-03-02" },
+        ],
+      },
+      {
+        path: "src/old.ts",
+        line: null,
+        isResolved: true,
+        comments: [{ author: "sam", body: "Nit", createdAt: "2024-03-02" }],
+      },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ pull_request: { number: 78, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain(
+      "# Reviews\n## Review 1\nAuthor: rita\nState: CHANGES_REQUESTED\nSubmitted: 2024-03-01\nSpec misses errors.",
+    );
+    expect(prompt).not.toContain("## Review 2");
+    expect(prompt).toContain(
+      "# Review Threads\n## src/api.ts:12 (unresolved)\nrita (2024-03-01): What about 404?\nalice (2024-03-02): Will add.",
+    );
+    expect(prompt).toContain("## src/old.ts:7 (resolved, outdated)\nsam (2024-03-02): Nit");
+  });
+
+  it("continues without review threads when the query fails", async () => {
+    process.env.GITHUB_EVENT_NAME = "pull_request";
+    octokitState.reviewThreadsError = new Error("Resource not accessible");
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ pull_request: { number: 79, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    expect(coreCalls.warning).toContain("Failed to fetch review threads: Resource not accessible");
+    expect(await readPrompt()).not.toContain("# Review Threads");
+  });
+
+  it("includes labels, milestone, assignees and issue type in the prompt", async () => {
+    octokitState.issueExtra = {
+      labels: [{ name: "bug" }, "api"],
+      milestone: { title: "v2.0" },
+      assignees: [{ login: "alice" }, { login: "bob" }],
+      type: { name: "Bug" },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 80, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain(
+      "# Metadata\nLabels: bug, api\nMilestone: v2.0\nAssignees: alice, bob\nType: Bug",
+    );
+    expect(prompt).toContain("# Bug Report Guidance");
+  });
+
+  it("condenses older comments to fit context_budget", async () => {
+    coreInputs.set("context_budget", "8000");
+    octokitState.comments = Array.from({ length: 30 }, (_, index) => ({
+      author: "bob",
+      body: `Comment ${index + 1} ${"z".repeat(1000)}`,
+      createdAt: "2024-01-01T00:00:00Z",
+    }));
+    octokitState.issueBody = "Keep this spec";
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 81, body: "Keep this spec" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt.length).toBeLessThanOrEqual(8000);
+    expect(prompt).toContain("# Current Specification\nKeep this spec");
+    expect(prompt).toContain(`Comment 30 ${"z".repeat(1000)}`);
+    expect(prompt).toMatch(/\[Comments 1-\d+ of 30 omitted to fit the context budget\.\]/);
+  });
+
+  it("adds the parent issue and sibling sub-issues to the prompt", async () => {
+    const node = (number: number, title: string, state: string, body: string) => ({
+      number,
+      title,
+      state,
+      body,
+      repository: { nameWithOwner: "acme/spec-gardener" },
+    });
+    octokitState.issueParent = {
+      ...node(10, "Checkout epic", "OPEN", `Epic scope\n\n---\n${FOOTER}`),
+      subIssues: {
+        nodes: [
+          node(11, "Cart page", "CLOSED", "Cart details"),
+          node(83, "Payment step", "OPEN", "Hi"),
+          node(12, "Receipts", "OPEN", "x".repeat(600)),
+        ],
+      },
+    };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 83, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain(
+      "## acme/spec-gardener#10 (parent, open): Checkout epic\nEpic scope\n\n",
+    );
+    expect(prompt).toContain("## acme/spec-gardener#11 (sibling, closed): Cart page\nCart details");
+    expect(prompt).toContain(
+      `## acme/spec-gardener#12 (sibling, open): Receipts\n${"x".repeat(500)}\n[truncated]`,
+    );
+    expect(prompt).not.toContain("acme/spec-gardener#83 (sibling");
+  });
+
+  it("adds repository guidelines for the item and its labels", async () => {
+    const dir = join(tmpdir(), `spec-gardener-guidelines-${Math.random().toString(16).slice(2)}`);
+    const files = {
+      [join(dir, "guidelines.md")]: "Write user stories.",
+      [join(dir, "guidelines", "bug.md")]: "List reproduction steps.",
+    };
+    for (const [path, contents] of Object.entries(files)) {
+      await Bun.write(path, contents);
+      tempFiles.push(path);
+    }
+    coreInputs.set("guidelines_dir", dir);
+    octokitState.issueExtra = { labels: [{ name: "bug" }, { name: "ui" }] };
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 84, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain(
+      `# Repository Guidelines\n## ${join(dir, "guidelines.md")}\nWrite user stories.\n\n## ${join(dir, "guidelines", "bug.md")}\nList reproduction steps.`,
+    );
+    expect(coreCalls.info).toContain(
+      `Loaded guidelines: ${join(dir, "guidelines.md")}, ${join(dir, "guidelines", "bug.md")}`,
+    );
+  });
+
+  it("marks its own comments as assistant turns without the boilerplate", async () => {
+    octokitState.comments = [
+      {
+        author: "github-actions",
+        body: `@alice Which regions?\n\n---\n💡 Type \`/spec-gardener help\` for available commands\n${FOOTER}`,
+        createdAt: "2024-01-01T00:00:00Z",
+      },
+      { author: "alice", body: "EU only.", createdAt: "2024-01-02T00:00:00Z" },
+    ];
+    spawnConfig.stdout = JSON.stringify({ type: "no_change" });
+    await writeEvent({ issue: { number: 82, body: "Hi" } });
+    const { main } = await import("../src/main");
+    await main();
+    const prompt = await readPrompt();
+    expect(prompt).toContain(
+      "# Comment 1\nRole: assistant\nAuthor: github-actions\nCreated: 2024-01-01T00:00:00Z\nWhich regions?\n\n# Comment 2\nRole: user\nAuthor: alice",
+    );
+    expect(prompt).not.toContain("available commands");
+  });
 });
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "bun:test";
+import { parseNativeOutput } from "../src/output-formats";
+
+const jsonLines = (...events: unknown[]): string =>
+  events.map((event) => JSON.stringify(event)).join("\n");
+
+describe("parseNativeOutput", () => {
+  it("returns null for text output", () => {
+    expect(parseNativeOutput("text", '{"type":"no_change"}')).toBeNull();
+  });
+
+  it("parses Claude stream-json events", () => {
+    const output = jsonLines(
+      { type: "system", subtype: "init", session_id: "abc" },
+      {
+        type: "assistant",
+        message: {
+          content: [
+            { type: "text", text: "Looking at the code." },
+            { type: "tool_use", id: "t1", name: "Read", input: { file_path: "src/main.ts" } },
+          ],
+        },
+      },
+      { type: "user", message: { content: [{ type: "tool_result", tool_use_id: "t1" }] } },
+      {
+        type: "assistant",
+        message: { content: [{ type: "text", text: '{"type":"no_change"}' }] },
+      },
+      {
+        type: "result",
+        subtype: "success",
+        result: '{"type":"no_change"}',
+        usage: { input_tokens: 120, output_tokens: 30, cache_read_input_tokens: 80 },
+        total_cost_usd: 0.0123,
+      },
+    );
+    expect(parseNativeOutput("claude-stream-json", output)).toEqual({
+      message: '{"type":"no_change"}',
+      toolUses: [{ name: "Read", detail: '{"file_path":"src/main.ts"}' }],
+      usage: { inputTokens: 120, outputTokens: 30, cachedInputTokens: 80, costUsd: 0.0123 },
+    });
+  });
+
+  it("falls back to the last assistant text without a result event", () => {
+    const output = jsonLines({
+      type: "assistant",
+      message: { content: [{ type: "text", text: "partial answer" }] },
+    });
+    expect(parseNativeOutput("claude-stream-json", output)?.message).toBe("partial answer");
+  });
+
+  it("parses Codex JSON events", () => {
+    const output = [
+      "Reading prompt from stdin...",
+      jsonLines(
+        { type: "thread.started", thread_id: "t" },
+        { type: "item.completed", item: { id: "0", type: "reasoning", text: "thinking" } },
+        {
+          type: "item.completed",
+          item: { id: "1", type: "command_execution", command: "rg main", exit_code: 0 },
+        },
+        {
+          type: "item.completed",
+          item: { id: "2", type: "agent_message", text: '{"type":"question","content":"Why?"}' },
+        },
+        {
+          type: "turn.completed",
+          usage: { input_tokens: 500, cached_input_tokens: 100, output_tokens: 40 },
+        },
+      ),
+    ].join("\n");
+    expect(parseNativeOutput("codex-json", output)).toEqual({
+      message: '{"type":"question","content":"Why?"}',
+      toolUses: [{ name: "shell", detail: "rg main" }],
+      usage: { inputTokens: 500, outputTokens: 40, cachedInputTokens: 100 },
+    });
+  });
+
+  it("returns null when Codex emitted no agent message", () => {
+    const output = jsonLines({ type: "thread.started" }, { type: "turn.failed" });
+    expect(parseNativeOutput("codex-json", output)).toBeNull();
+  });
+
+  it("parses Gemini JSON output", () => {
+    const output = JSON.stringify({
+      response: '{"type":"no_change"}',
+      stats: {
+        models: {
+          "gemini-2.5-pro": { tokens: { prompt: 900, candidates: 12, cached: 300 } },
+        },
+        tools: { totalCalls: 3, byName: { read_file: { count: 2 }, glob: { count: 1 } } },
+      },
+    });
+    expect(parseNativeOutput("gemini-json", output)).toEqual({
+      message: '{"type":"no_change"}',
+      toolUses: [
+        { name: "read_file", detail: "2 calls" },
+        { name: "glob", detail: "1 call" },
+      ],
+      usage: { inputTokens: 900, outputTokens: 12, cachedInputTokens: 300 },
+    });
+  });
+
+  it("returns null when Gemini output lacks a response", () => {
+    expect(parseNativeOutput("gemini-json", '{"error":{"message":"quota"}}')).toBeNull();
+    expect(parseNativeOutput("gemini-json", "not json")).toBeNull();
+  });
+
+  it("parses OpenAI-compatible chat completions", () => {
+    const output = JSON.stringify({
+      id: "chatcmpl-1",
+      choices: [{ index: 0, message: { role: "assistant", content: '{"type":"no_change"}' } }],
+      usage: {
+        prompt_tokens: 700,
+        completion_tokens: 15,
+        prompt_tokens_details: { cached_tokens: 200 },
+      },
+    });
+    expect(parseNativeOutput("openai-chat-json", output)).toEqual({
+      message: '{"type":"no_change"}',
+      toolUses: [],
+      usage: { inputTokens: 700, outputTokens: 15, cachedInputTokens: 200 },
+    });
+  });
+
+  it("returns null when a chat completion has no message content", () => {
+    expect(parseNativeOutput("openai-chat-json", '{"choices":[]}')).toBeNull();
+    expect(parseNativeOutput("openai-chat-json", '{"error":{"message":"busy"}}')).toBeNull();
+  });
+});
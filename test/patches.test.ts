@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import type { ChangedFile } from "../src/adapters";
+import {
+  applyPatchBudget,
+  isLowPriorityFile,
+  OMITTED_PATCH_MARKER,
+  TRUNCATED_PATCH_MARKER,
+} from "../src/patches";
+
+const file = (filename: string, patch?: string): ChangedFile => ({
+  filename,
+  status: "modified",
+  additions: 1,
+  deletions: 1,
+  changes: 2,
+  patch,
+});
+
+const hunk = (lines: number): string =>
+  ["@@ -1,1 +1,1 @@", ...Array.from({ length: lines }, (_, i) => `+line ${i}`)].join("\n");
+
+describe("isLowPriorityFile", () => {
+  it("detects lockfiles and generated files", () => {
+    expect(isLowPriorityFile("bun.lock")).toBe(true);
+    expect(isLowPriorityFile("web/package-lock.json")).toBe(true);
+    expect(isLowPriorityFile("dist/index.js")).toBe(true);
+    expect(isLowPriorityFile("assets/app.min.js")).toBe(true);
+    expect(isLowPriorityFile("test/__snapshots__/a.test.ts.snap")).toBe(true);
+    expect(isLowPriorityFile("src/main.ts")).toBe(false);
+    expect(isLowPriorityFile("src/distance.ts")).toBe(false);
+  });
+});
+
+describe("applyPatchBudget", () => {
+  it("keeps every patch that fits", () => {
+    const files = [file("src/a.ts", "@@ a"), file("image.png")];
+    expect(applyPatchBudget(files, 1000)).toEqual(files);
+  });
+
+  it("spends the budget on source files before lockfiles", () => {
+    const lock = hunk(50);
+    const source = hunk(50);
+    const [lockFile, sourceFile] = applyPatchBudget(
+      [file("bun.lock", lock), file("src/a.ts", source)],
+      source.length + 10,
+    );
+    expect(sourceFile.patch).toBe(source);
+    expect(lockFile.patch).toBe(OMITTED_PATCH_MARKER);
+  });
+
+  it("truncates the patch that crosses the budget at a line boundary", () => {
+    const [first, second] = applyPatchBudget(
+      [file("src/a.ts", hunk(100)), file("src/b.ts", hunk(5))],
+      500,
+    );
+    expect(first.patch?.endsWith(`\n${TRUNCATED_PATCH_MARKER}`)).toBe(true);
+    expect(first.patch?.length).toBeLessThanOrEqual(500 + TRUNCATED_PATCH_MARKER.length + 1);
+    expect(first.patch?.split("\n").at(-2)).toMatch(/^\+line \d+$/);
+    expect(second.patch).toBe(OMITTED_PATCH_MARKER);
+  });
+});
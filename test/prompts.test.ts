@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { buildPrompt } from "../src/prompts";
+import { buildJudgePrompt, buildPrompt, buildRepairPrompt, hasLabel } from "../src/prompts";
 import type { SpecContext } from "../src/adapters";
 
 describe("buildPrompt", () => {
@@ -10,6 +10,99 @@ describe("buildPrompt", () => {
     comments: [],
   };
 
+  it("renders repository guidelines after the custom instructions", () => {
+    const prompt = buildPrompt(
+      {
+        ...baseContext,
+        guidelines: [{ path: ".github/spec-gardener/guidelines.md", content: "Be brief." }],
+      },
+      "Use British English.",
+    );
+    expect(prompt).toContain(
+      "# Custom Instructions\nUse British English.\n\n# Repository Guidelines\n## .github/spec-gardener/guidelines.md\nBe brief.\n\n# Issue Title",
+    );
+  });
+
+  it("renders the issue hierarchy when the issue has a parent", () => {
+    expect(buildPrompt(baseContext)).not.toContain("# Issue Hierarchy");
+    const prompt = buildPrompt({
+      ...baseContext,
+      hierarchy: {
+        parent: { reference: "acme/app#1", title: "Epic", state: "open", body: "Scope" },
+        siblings: [{ reference: "acme/app#3", title: "Other", state: "closed", body: "" }],
+      },
+    });
+    expect(prompt).toContain("# Issue Hierarchy\nThis issue is a sub-issue.");
+    expect(prompt).toContain(
+      "## acme/app#1 (parent, open): Epic\nScope\n\n## acme/app#3 (sibling, closed): Other\n(empty)",
+    );
+  });
+
+  it("uses the split instructions and format for the split task", () => {
+    const prompt = buildPrompt(baseContext, undefined, { task: "split" });
+    expect(prompt).toContain("breaks a large specification into smaller issues");
+    expect(prompt).toContain('{"type":"split","issues":[{"title":"...","body":"..."');
+    expect(prompt).not.toContain('{"type":"complete"');
+    expect(buildPrompt(baseContext)).not.toContain('{"type":"split"');
+  });
+
+  it("uses the criteria instructions and format for the criteria task", () => {
+    const prompt = buildPrompt(baseContext, undefined, { task: "criteria" });
+    expect(prompt).toContain("writes acceptance criteria and a test plan");
+    expect(prompt).toContain(
+      '{"type":"criteria","criteria":[{"given":"...","when":"...","expected":"..."}]',
+    );
+    expect(prompt).not.toContain('{"type":"complete"');
+  });
+
+  it("adds the linked issues for the verify task", () => {
+    const prompt = buildPrompt(
+      {
+        ...baseContext,
+        linkedIssues: [{ reference: "acme/shop#12", title: "Checkout", body: "Pay by card." }],
+      },
+      undefined,
+      { task: "verify" },
+    );
+    expect(prompt).toContain("checks whether a pull request implements the specifications");
+    expect(prompt).toContain(
+      '{"type":"verify","checks":[{"status":"satisfied|missing|out_of_scope"',
+    );
+    expect(prompt).toContain("# Linked Issues\n## acme/shop#12: Checkout\nPay by card.");
+    expect(buildPrompt(baseContext)).not.toContain("# Linked Issues");
+  });
+
+  it("uses the ask instructions and adds the question for the ask task", () => {
+    const prompt = buildPrompt(
+      { ...baseContext, question: "Which modules would this touch?" },
+      undefined,
+      { task: "ask" },
+    );
+    expect(prompt).toContain("answers questions about a specification");
+    expect(prompt).toContain('{"type":"answer","content":"..."}');
+    expect(prompt).not.toContain('{"type":"complete"');
+    expect(prompt.endsWith("# Question\nWhich modules would this touch?")).toBe(true);
+    expect(buildPrompt(baseContext)).not.toContain("# Question");
+  });
+
+  it("renders the comment history as a dialogue", () => {
+    const prompt = buildPrompt({
+      ...baseContext,
+      comments: [
+        {
+          author: "github-actions",
+          body: "Which regions?",
+          createdAt: "2024-01-01",
+          role: "assistant",
+        },
+        { author: "bob", body: "EU only.", createdAt: "2024-01-02", role: "user" },
+      ],
+    });
+    expect(prompt).toContain(
+      "# Comment 1\nRole: assistant\nAuthor: github-actions\nCreated: 2024-01-01\nWhich regions?\n\n# Comment 2\nRole: user\nAuthor: bob\nCreated: 2024-01-02\nEU only.",
+    );
+  });
+
   it("omits changed files section when not provided", () => {
     const prompt = buildPrompt(baseContext);
     expect(prompt).not.toContain("# Changed Files");
@@ -21,6 +114,100 @@ describe("buildPrompt", () => {
     expect(prompt).toContain("(no files changed)");
   });
 
+  it("renders metadata with placeholders for missing values", () => {
+    const prompt = buildPrompt({ ...baseContext, metadata: { labels: [], assignees: [] } });
+    expect(prompt).toContain("# Metadata\nLabels: (none)\nMilestone: (none)\nAssignees: (none)\n");
+    expect(prompt).not.toContain("Type:");
+    expect(buildPrompt(baseContext)).not.toContain("# Metadata");
+  });
+
+  it("adds bug guidance only for bug reports", () => {
+    const bug = { ...baseContext, metadata: { labels: ["Bug"], assignees: [] } };
+    expect(hasLabel(bug, "bug")).toBe(true);
+    expect(hasLabel(baseContext, "bug")).toBe(false);
+    expect(buildPrompt(bug)).toContain("# Bug Report Guidance");
+    expect(
+      buildPrompt({ ...baseContext, metadata: { labels: ["feature"], assignees: [] } }),
+    ).not.toContain("# Bug Report Guidance");
+  });
+
+  it("renders patches under a diff section", () => {
+    const prompt = buildPrompt({
+      ...baseContext,
+      changedFiles: [
+        {
+          filename: "src/a.ts",
+          status: "modified",
+          additions: 1,
+          deletions: 1,
+          changes: 2,
+          patch: "@@ -1 +1 @@\n-a\n+b",
+        },
+        { filename: "logo.png", status: "added", additions: 0, deletions: 0, changes: 0 },
+      ],
+    });
+    expect(prompt).toContain("# Diff\n## src/a.ts\n```diff\n@@ -1 +1 @@\n-a\n+b\n```");
+    expect(prompt).not.toContain("## logo.png");
+    expect(buildPrompt({ ...baseContext, changedFiles: [] })).not.toContain("# Diff");
+  });
+
+  it("renders reviews and review threads", () => {
+    const prompt = buildPrompt({
+      ...baseContext,
+      reviews: [{ author: "rita", state: "APPROVED", body: "", submittedAt: "2024-03-01" }],
+      reviewThreads: [
+        {
+          path: "src/a.ts",
+          isResolved: false,
+          isOutdated: false,
+          comments: [{ author: "sam", body: "Why?", createdAt: "2024-03-02" }],
+        },
+      ],
+    });
+    expect(prompt).toContain(
+      "# Reviews\n## Review 1\nAuthor: rita\nState: APPROVED\nSubmitted: 2024-03-01\n(no summary)",
+    );
+    expect(prompt).toContain("# Review Threads\n## src/a.ts (unresolved)\nsam (2024-03-02): Why?");
+    expect(buildPrompt(baseContext)).not.toContain("# Reviews");
+  });
+
+  it("renders related items after the spec context", () => {
+    const prompt = buildPrompt({
+      ...baseContext,
+      relatedItems: [
+        {
+          reference: "acme/api#412",
+          kind: "issue",
+          title: "Export orders as CSV",
+          state: "closed",
+          labels: ["enhancement", "export"],
+          body: "Orders can be exported.",
+        },
+        {
+          reference: "acme/api#9",
+          kind: "pull_request",
+          title: "Add CSV writer",
+          state: "open",
+          labels: [],
+          body: "",
+        },
+      ],
+    });
+    expect(prompt).toContain(
+      [
+        "# Related Items",
+        "## acme/api#412 (issue, closed): Export orders as CSV",
+        "Labels: enhancement, export",
+        "Orders can be exported.",
+        "",
+        "## acme/api#9 (pull request, open): Add CSV writer",
+        "Labels: (none)",
+        "(empty)",
+      ].join("\n"),
+    );
+    expect(buildPrompt(baseContext)).not.toContain("# Related Items");
+  });
+
   it("includes guidance for no_change when spec is already complete", () => {
     const prompt = buildPrompt(baseContext);
     expect(prompt).toContain(
@@ -30,3 +217,99 @@ describe("buildPrompt", () => {
     expect(prompt).toContain("Do not rewrite the body with the same or similar content.");
   });
 });
+
+describe("buildRepairPrompt", () => {
+  it("appends validation errors and the rejected response", () => {
+    const prompt = buildRepairPrompt("Original prompt", "not json", ['"type" is missing.']);
+    expect(prompt.startsWith("Original prompt\n")).toBe(true);
+    expect(prompt).toContain("# Previous Response Errors");
+    expect(prompt).toContain('- "type" is missing.');
+    expect(prompt).toContain("# Previous Response\nnot json");
+  });
+
+  it("truncates long rejected responses", () => {
+    const prompt = buildRepairPrompt("Original prompt", "x".repeat(5000), ["Invalid."]);
+    expect(prompt).toContain("[truncated]");
+    expect(prompt).not.toContain("x".repeat(4001));
+  });
+});
+
+describe("buildPrompt with a context budget", () => {
+  const thread: SpecContext = {
+    title: "Title",
+    body: `Spec ${"s".repeat(2000)}`,
+    author: "bob",
+    comments: Array.from({ length: 40 }, (_, index) => ({
+      author: "alice",
+      body: `Note ${index + 1} ${"c".repeat(1000)}`,
+      createdAt: "2024-01-01T00:00:00Z",
+    })),
+  };
+
+  it("leaves prompts within the budget unchanged", () => {
+    expect(buildPrompt(thread, undefined, { budget: 1_000_000 })).toBe(buildPrompt(thread));
+  });
+
+  it("keeps the newest comments and condenses or omits older ones", () => {
+    // Room for eight full comments and a few condensed ones.
+    const budget = buildPrompt({ ...thread, comments: [] }).length + 8 * 1100 + 3 * 300;
+    const prompt = buildPrompt(thread, undefined, { budget });
+    expect(prompt.length).toBeLessThanOrEqual(budget);
+    expect(prompt).toContain(thread.body);
+    expect(prompt).toContain(
+      `# Comment 40\nRole: user\nAuthor: alice\nCreated: 2024-01-01T00:00:00Z\nNote 40 ${"c".repeat(1000)}`,
+    );
+    expect(prompt).toMatch(/\[Comments 1-\d+ of 40 omitted to fit the context budget\.\]/);
+    expect(prompt).toMatch(
+      /\[Comments \d+-\d+ of 40 condensed to their first 200 characters to fit the context budget\.\]/,
+    );
+    expect(prompt).toContain(" [condensed]");
+    expect(prompt).not.toContain("Note 1 ");
+  });
+
+  it("always keeps the specification and the newest comment", () => {
+    const prompt = buildPrompt(thread, undefined, { budget: 100 });
+    expect(prompt).toContain(thread.body);
+    expect(prompt).toContain(`Note 40 ${"c".repeat(1000)}`);
+    expect(prompt).toContain("[Comments 1-39 of 40 omitted to fit the context budget.]");
+  });
+
+  it("applies the budget to judge prompts", () => {
+    const prompt = buildJudgePrompt(
+      thread,
+      [{ agent: "codex", result: { type: "no_change" } }],
+      undefined,
+      {
+        budget: 100,
+      },
+    );
+    expect(prompt).toContain("[Comments 1-39 of 40 omitted to fit the context budget.]");
+    expect(prompt).toContain('## Candidate 1 (codex)\n{"type":"no_change"}');
+  });
+});
+
+describe("buildJudgePrompt", () => {
+  it("includes the context and every candidate result", () => {
+    const prompt = buildJudgePrompt({ title: "Title", body: "Body", author: "bob", comments: [] }, [
+      { agent: "claude", result: { type: "question", content: "Why?" } },
+      { agent: "codex", result: { type: "no_change" } },
+    ]);
+    expect(prompt).toContain("You are a judge");
+    expect(prompt).toContain("# Current Specification\nBody");
+    expect(prompt).toContain('## Candidate 1 (claude)\n{"type":"question","content":"Why?"}');
+    expect(prompt).toContain('## Candidate 2 (codex)\n{"type":"no_change"}');
+  });
+
+  it("tells the judge what a good result looks like for the task", () => {
+    const context = { title: "Title", body: "Body", author: "bob", comments: [] };
+    const refine = buildJudgePrompt(context, []);
+    expect(refine).toContain("merge completed specifications into one coherent body");
+    const ask = buildJudgePrompt(context, [], undefined, { task: "ask" });
+    expect(ask).toContain("You are a judge");
+    expect(ask).toContain('A good answer addresses the question under "# Question" directly');
+    expect(ask).not.toContain("merge completed specifications");
+    expect(buildJudgePrompt(context, [], undefined, { task: "verify" })).toContain(
+      "A good checklist assesses every requirement in the linked issues once",
+    );
+  });
+});
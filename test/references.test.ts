@@ -0,0 +1,35 @@
+import { describe, expect, it } from "bun:test";
+import { extractReferences, formatReference } from "../src/references";
+
+describe("extractReferences", () => {
+  it("finds local, cross-repository and URL references in order", () => {
+    const text = [
+      "Same as #412 but for invoices.",
+      "See also acme/billing#7 and https://github.com/acme/web/pull/99#issuecomment-1.",
+    ].join("\n");
+    expect(extractReferences(text, "acme", "api").map(formatReference)).toEqual([
+      "acme/api#412",
+      "acme/billing#7",
+      "acme/web#99",
+    ]);
+  });
+
+  it("deduplicates references case-insensitively", () => {
+    const text = "#5, Acme/Api#5 and https://github.com/acme/api/issues/5";
+    expect(extractReferences(text, "acme", "api")).toEqual([
+      { owner: "acme", repo: "api", number: 5 },
+    ]);
+  });
+
+  it("ignores code, anchors and HTML entities", () => {
+    const text = ["Color `#123` and page#4 and &#39;", "```", "fix #8", "```"].join("\n");
+    expect(extractReferences(text, "acme", "api")).toEqual([]);
+  });
+
+  it("matches URLs on the configured server only", () => {
+    const text = "https://ghe.example.com/acme/api/issues/3 https://github.com/acme/api/issues/4";
+    expect(
+      extractReferences(text, "acme", "api", "https://ghe.example.com/").map(formatReference),
+    ).toEqual(["acme/api#3"]);
+  });
+});
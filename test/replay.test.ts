@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getAdapter, type ProviderAdapter } from "../src/adapters";
+import {
+  createRecordingAdapter,
+  createReplayAdapter,
+  getFixturePath,
+  hashPrompt,
+  readFixture,
+} from "../src/replay";
+
+const tempDirs: string[] = [];
+
+const createTempDir = (): string => {
+  const dir = mkdtempSync(join(tmpdir(), "spec-gardener-fixtures-"));
+  tempDirs.push(dir);
+  return dir;
+};
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("hashPrompt", () => {
+  it("returns a stable sha256 hex digest", () => {
+    expect(hashPrompt("prompt")).toBe(hashPrompt("prompt"));
+    expect(hashPrompt("prompt")).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashPrompt("prompt")).not.toBe(hashPrompt("prompt "));
+  });
+});
+
+describe("replay adapter", () => {
+  it("serves the recorded result for a prompt", async () => {
+    const dir = createTempDir();
+    writeFileSync(
+      getFixturePath(dir, "Refine the spec."),
+      JSON.stringify({ agent: "codex", prompt: "Refine the spec.", result: { type: "no_change" } }),
+    );
+    const adapter = createReplayAdapter(dir);
+    const output = await adapter.request?.("Refine the spec.", 0);
+    expect(adapter.parseOutput(output ?? "").result).toEqual({ type: "no_change" });
+  });
+
+  it("serves raw output fixtures verbatim", async () => {
+    const dir = createTempDir();
+    writeFileSync(
+      getFixturePath(dir, "prompt"),
+      JSON.stringify({ agent: "codex", prompt: "prompt", output: "not json" }),
+    );
+    expect(await createReplayAdapter(dir).request?.("prompt", 0)).toBe("not json");
+  });
+
+  it("fails when no fixture matches the prompt", async () => {
+    const dir = createTempDir();
+    await expect(createReplayAdapter(dir).request?.("unknown", 0)).rejects.toThrow(
+      `No replay fixture for prompt ${hashPrompt("unknown")}`,
+    );
+  });
+
+  it("rejects fixtures without a result or output", async () => {
+    const dir = createTempDir();
+    writeFileSync(getFixturePath(dir, "prompt"), JSON.stringify({ prompt: "prompt" }));
+    await expect(readFixture(dir, "prompt")).rejects.toThrow(
+      'expected a "result" or "output" field',
+    );
+  });
+});
+
+describe("recording adapter", () => {
+  const inner: ProviderAdapter = {
+    name: "codex",
+    source: "@openai/codex@0.87.0",
+    buildPrompt: () => "",
+    parseOutput: (output) =>
+      output.startsWith("{")
+        ? { result: JSON.parse(output), parseFailed: false }
+        : { result: { type: "no_change" }, parseFailed: true },
+  };
+
+  it("records parsed results and replays them", async () => {
+    const dir = createTempDir();
+    const recording = createRecordingAdapter(inner, dir, async () =>
+      JSON.stringify({ type: "question", content: "Why?" }),
+    );
+    await recording.request?.("prompt", 0);
+    const fixture = JSON.parse(readFileSync(getFixturePath(dir, "prompt"), "utf8"));
+    expect(fixture).toEqual({
+      agent: "codex",
+      prompt: "prompt",
+      result: { type: "question", content: "Why?" },
+    });
+    const replayed = await createReplayAdapter(dir).request?.("prompt", 0);
+    expect(JSON.parse(replayed ?? "")).toEqual({ type: "question", content: "Why?" });
+  });
+
+  it("records raw output when parsing fails", async () => {
+    const dir = createTempDir();
+    const recording = createRecordingAdapter(inner, dir, async () => "garbage");
+    expect(await recording.request?.("prompt", 0)).toBe("garbage");
+    expect((await readFixture(dir, "prompt")).output).toBe("garbage");
+  });
+
+  it("records and replays native output for the task that was run", async () => {
+    const dir = createTempDir();
+    const claudeOutput = (message: string): string =>
+      [
+        { type: "assistant", message: { content: [{ type: "text", text: message }] } },
+        { type: "result", subtype: "success", result: message },
+      ]
+        .map((event) => JSON.stringify(event))
+        .join("\n");
+    const outputs = [
+      claudeOutput('{"type":"answer","content":"The cart module."}'),
+      claudeOutput('{"type":"answer","content":" "}'),
+    ];
+    const recording = createRecordingAdapter(getAdapter("claude"), dir, async (_, prompt) =>
+      prompt === "valid" ? outputs[0] : outputs[1],
+    );
+    await recording.request?.("valid", 0, "ask");
+    await recording.request?.("invalid", 0, "ask");
+    expect(await readFixture(dir, "valid")).toEqual({
+      agent: "claude",
+      prompt: "valid",
+      result: { type: "answer", content: "The cart module." },
+    });
+    expect(await readFixture(dir, "invalid")).toEqual({
+      agent: "claude",
+      prompt: "invalid",
+      output: outputs[1],
+      format: "claude-stream-json",
+    });
+
+    const replay = createReplayAdapter(dir);
+    const valid = await replay.request?.("valid", 0, "ask");
+    expect(replay.parseOutput(valid ?? "", "ask").result).toEqual({
+      type: "answer",
+      content: "The cart module.",
+    });
+    const invalid = await replay.request?.("invalid", 0, "ask");
+    expect(replay.parseOutput(invalid ?? "", "ask")).toMatchObject({
+      parseFailed: true,
+      errors: ['"content" must be a non-empty string for type "answer".'],
+    });
+  });
+});